@@ -0,0 +1,261 @@
+import { isNotAboutAPerson, Language } from "./languages";
+import { NameReference } from "./nameMatcher";
+import { buildPronounPattern, getAllPronouns, getSetWords, resolvePronounSets } from "./pronounRegistry";
+
+// Works out who each pronoun in my message is about, in one pass over the whole message,
+// so two people mentioned together never both claim the same pronoun.
+
+export interface Referent {
+    userId: string;
+    pronouns: string;
+    // Not mentioned in the message, e.g. the person I'm DMing
+    implicit?: boolean;
+    // Wins over other implicit referents, e.g. the person I'm replying to in a group DM
+    preferred?: boolean;
+    // What I call them, for people who'd rather I used their name than pronouns
+    name?: string;
+}
+
+export interface PronounAssignment {
+    word: string;
+    position: number;
+    userId: string;
+    // Characters between the pronoun and the mention it was tied to, null for implicit referents
+    distance: number | null;
+    // The mention is in an earlier or later sentence than the pronoun
+    crossesSentence: boolean;
+    // The referent already goes by this pronoun, so there's nothing to fix
+    agrees: boolean;
+    // Confidence to take off because I only named them (short or shared names are shakier)
+    penalty: number;
+}
+
+interface Mention {
+    // Null for someone who isn't on Discord, like "my brother"
+    userId: string | null;
+    start: number;
+    end: number;
+    sentence: number;
+    penalty: number;
+}
+
+// Sentence i covers [starts[i], starts[i + 1])
+function findSentenceStarts(content: string): number[] {
+    const starts = [0];
+    const boundary = /[.!?]+(?=\s|$)|\n+/g;
+
+    let match;
+    while ((match = boundary.exec(content)) !== null) {
+        starts.push(match.index + match[0].length);
+    }
+
+    return starts;
+}
+
+function sentenceAt(starts: number[], position: number): number {
+    let sentence = 0;
+    while (sentence + 1 < starts.length && starts[sentence + 1] <= position) sentence++;
+    return sentence;
+}
+
+// Pronouns that are usually about things, only ever resolved to someone who goes by them
+const THING_PRONOUNS = new Set(["it", "its", "itself"]);
+
+// People who aren't on Discord: "my brother", "my new boss", "this guy". English only for now.
+// Not after his/her/their, that pronoun is about someone too and still needs checking ("his mom").
+const THIRD_PARTY_PATTERN = new RegExp(
+    "\\b(?:my|your|our|a|an|the|this|that)\\s+" +
+    "(?:(?:little|big|older|younger|best|new|old|ex)[\\s-]+)?" +
+    "(?:brother|sister|sibling|mom|mum|mother|dad|father|parent|son|daughter|kid|child|baby|aunt|uncle|" +
+    "cousin|niece|nephew|grandma|grandmother|grandpa|grandfather|boyfriend|girlfriend|husband|wife|partner|" +
+    "friend|bestie|buddy|pal|roommate|flatmate|boss|manager|coworker|co-worker|colleague|teacher|professor|classmate|neighbou?r|" +
+    "doctor|therapist|landlord|guy|girl|boy|man|woman|lady|dude)s?\\b",
+    "gi"
+);
+
+export interface ThirdPartyReference {
+    start: number;
+    end: number;
+}
+
+export function findThirdPartyReferences(content: string): ThirdPartyReference[] {
+    return Array.from(content.matchAll(THIRD_PARTY_PATTERN), match => ({
+        start: match.index!,
+        end: match.index! + match[0].length
+    }));
+}
+
+// Someone who isn't on Discord and a pronoun that's about them ("my brother said he'd come"),
+// so a passing "the guy at the store" doesn't count on its own
+export function talksAboutThirdParty(content: string, language: Language = Language.ENGLISH): boolean {
+    if (language !== Language.ENGLISH) return false;
+
+    const [first] = findThirdPartyReferences(content);
+    const pattern = first && buildPronounPattern(getAllPronouns(language), "gi");
+    if (!pattern) return false;
+
+    let match;
+    while ((match = pattern.exec(content)) !== null) {
+        if (match.index >= first.end && !isNotAboutAPerson(content, match.index, match[0], language)) return true;
+    }
+    return false;
+}
+
+// Every mention in the message counts, even people I don't know the pronouns of:
+// a pronoun that belongs to them shouldn't be handed to someone else
+function findMentions(content: string, sentenceStarts: number[], nameReferences: NameReference[]): Mention[] {
+    const mentions: Mention[] = Array.from(content.matchAll(/<@!?(\d+)>/g), match => ({
+        userId: match[1],
+        start: match.index!,
+        end: match.index! + match[0].length,
+        sentence: sentenceAt(sentenceStarts, match.index!),
+        penalty: 0
+    }));
+
+    // People I named count too, just with less certainty
+    for (const reference of nameReferences) {
+        mentions.push({
+            userId: reference.userId,
+            start: reference.start,
+            end: reference.end,
+            sentence: sentenceAt(sentenceStarts, reference.start),
+            penalty: reference.penalty
+        });
+    }
+
+    // And people who aren't on Discord, so "my brother said he'd come" leaves "he" to my brother
+    for (const reference of findThirdPartyReferences(content)) {
+        mentions.push({
+            userId: null,
+            start: reference.start,
+            end: reference.end,
+            sentence: sentenceAt(sentenceStarts, reference.start),
+            penalty: 0
+        });
+    }
+
+    return mentions;
+}
+
+function acceptsPronoun(referent: Referent | undefined, word: string, language: Language): boolean {
+    if (!referent) return false;
+    if (referent.pronouns === "any pronouns") return true;
+    return resolvePronounSets(referent.pronouns, language).some(set => getSetWords(set).includes(word));
+}
+
+function distanceTo(mention: Mention, position: number, length: number): number {
+    return mention.end <= position ? position - mention.end : mention.start - (position + length);
+}
+
+// The closest mention, unless two different people are equally close (a name several members share)
+function nearest(mentions: Mention[], position: number, length: number): Mention | undefined {
+    const [first, second] = [...mentions].sort((a, b) => distanceTo(a, position, length) - distanceTo(b, position, length));
+
+    if (second && second.userId !== first.userId && distanceTo(second, position, length) === distanceTo(first, position, length)) {
+        return undefined;
+    }
+    return first;
+}
+
+// The only implicit referent, or the one I'm replying to. In a group DM with nobody
+// singled out, a pronoun could be about anyone, so I leave it alone.
+function pickImplicitReferent(implicitReferents: Referent[]): Referent | undefined {
+    if (implicitReferents.length === 1) return implicitReferents[0];
+
+    const preferred = implicitReferents.filter(r => r.preferred);
+    return preferred.length === 1 ? preferred[0] : undefined;
+}
+
+export function resolveAntecedents(
+    content: string,
+    referents: Referent[],
+    nameReferences: NameReference[] = [],
+    language: Language = Language.ENGLISH
+): PronounAssignment[] {
+    const pattern = buildPronounPattern(getAllPronouns(language), "gi", language !== Language.ENGLISH);
+    if (!pattern) return [];
+
+    const referentsById = new Map(referents.map(r => [r.userId, r]));
+    const sentenceStarts = findSentenceStarts(content);
+    const mentions = findMentions(content, sentenceStarts, nameReferences);
+    const implicitReferents = referents.filter(r => r.implicit);
+    const assignments: PronounAssignment[] = [];
+
+    let match;
+    while ((match = pattern.exec(content)) !== null) {
+        const word = match[0].toLowerCase();
+        const position = match.index;
+
+        // French "il y a", German formal "Sie" and the like aren't about anyone
+        if (isNotAboutAPerson(content, position, match[0], language)) continue;
+
+        const sentence = sentenceAt(sentenceStarts, position);
+
+        // Someone who isn't on Discord only takes the pronouns after them: "tell him my mom called" is still about him
+        const candidates = mentions.filter(m => m.userId !== null || m.end <= position);
+        const sameSentence = candidates.filter(m => m.sentence === sentence);
+        const previousSentence = candidates.filter(m => m.sentence === sentence - 1);
+        const inScope = sameSentence.length > 0 ? sameSentence : previousSentence;
+
+        const assign = (mention: Mention | undefined, agrees = false) => {
+            if (!mention) return; // Tied between two people, so no clear referent
+            if (mention.userId === null) return; // About someone who isn't on Discord, nothing for me to check
+
+            assignments.push({
+                word,
+                position,
+                userId: mention.userId,
+                distance: distanceTo(mention, position, word.length),
+                crossesSentence: mention.sentence !== sentence,
+                agrees,
+                penalty: mention.penalty
+            });
+        };
+
+        // Someone nearby already goes by this pronoun, so it's theirs and it's right
+        const agreeing = inScope.filter(m => m.userId !== null && acceptsPronoun(referentsById.get(m.userId), word, language));
+        if (agreeing.length > 0) {
+            assign(agreeing.sort((a, b) => distanceTo(a, position, word.length) - distanceTo(b, position, word.length))[0], true);
+            continue;
+        }
+
+        // "it" is almost always a thing, so it's only someone's when they go by it/its.
+        // Nobody nearby does, so it stays as I wrote it unless someone I'm implicitly talking to does.
+        if (THING_PRONOUNS.has(word) && (inScope.length > 0 || !implicitReferents.some(r => acceptsPronoun(r, word, language)))) {
+            continue;
+        }
+
+        // Otherwise the closest mention before the pronoun in this sentence, then the previous sentence,
+        // then one right after it ("He is great at coding <@id>")
+        const before = sameSentence.filter(m => m.end <= position);
+        const after = sameSentence.filter(m => m.start >= position + word.length);
+
+        if (before.length > 0) {
+            assign(nearest(before, position, word.length));
+        } else if (sameSentence.length === 0 && previousSentence.length > 0) {
+            assign(nearest(previousSentence, position, word.length));
+        } else if (after.length > 0) {
+            assign(nearest(after, position, word.length));
+        } else if (inScope.length === 0) {
+            // Nobody mentioned nearby, so it's about someone I'm implicitly talking to.
+            // If one of them already goes by this pronoun it's theirs, otherwise only a clear favourite counts.
+            const agreeing = implicitReferents.find(r => acceptsPronoun(r, word, language));
+            const referent = agreeing ?? pickImplicitReferent(implicitReferents);
+
+            if (referent) {
+                assignments.push({
+                    word,
+                    position,
+                    userId: referent.userId,
+                    distance: null,
+                    crossesSentence: false,
+                    agrees: !!agreeing,
+                    penalty: 0
+                });
+            }
+        }
+        // Anything else has no clear referent and stays as I wrote it
+    }
+
+    return assignments;
+}
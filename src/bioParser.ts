@@ -0,0 +1,89 @@
+import { formatPronounSets, getSetWords, resolvePronounSets } from "./pronounRegistry";
+
+// Pulls pronouns out of free-form profile text. Nothing in here touches Discord,
+// so test/bioParser.test.ts runs it against the sample bios in test/fixtures.
+
+// Phrases that mean something other than a specific set
+const SPECIAL_PHRASES: Array<[RegExp, string]> = [
+    [/\bany\s*(?:\/\s*all\s*)?pronouns\b|\bany\s*\/\s*all\b|\bpronouns\s*[:\-–]\s*any\b/i, "any pronouns"],
+    [/\b(?:no|avoid)\s+pronouns\b|\bname\s+only\b|\buse\s+my\s+name\b/i, "avoid pronouns"],
+    [/\bask\s+(?:me\s+)?(?:for\s+|about\s+)?(?:my\s+)?pronouns\b|\bpronouns\s*[:\-–]\s*ask\b/i, "ask for pronouns"]
+];
+
+// Just "any" (or "any/all") on its own, which people often put in the pronouns field
+const BARE_ANY = /^\s*any(?:\s*\/\s*all)?\s*[.!]?\s*$/i;
+
+// A run of pronoun-ish words joined by slashes, like "she/her" or "he / they / it"
+const SLASH_RUN = String.raw`[\p{L}'’]+(?:\s*\/\s*[\p{L}'’]+)+`;
+
+// The same run anywhere in the text, not part of a longer one
+const SLASH_RUN_PATTERN = new RegExp(String.raw`(?<![\p{L}\/])(${SLASH_RUN})(?![\p{L}\/])`, "gu");
+
+// Where pronouns usually show up in a bio, most explicit first
+const BIO_PATTERNS: RegExp[] = [
+    // "pronouns: they/them", "prns - she/her", "pronouns are he/him"
+    new RegExp(String.raw`\b(?:pronouns?|prns?)\s*(?:[:\-–=]|are|is)\s*(${SLASH_RUN})`, "iu"),
+    // "(he/him)", "[she/they]", "{xe/xem}"
+    new RegExp(String.raw`[(\[{]\s*(${SLASH_RUN})\s*[)\]}]`, "u"),
+    // "she/her" anywhere
+    SLASH_RUN_PATTERN
+];
+
+// Normalize a short pronouns string (the profile pronouns field, or a match from a bio)
+// into the same format the other sources give me ("she/her", "he/they", "any pronouns").
+// An explicit set wins over a phrase, so "she/her, any pronouns are fine" is she/her.
+export function parsePronounsFromText(text: string): string {
+    if (!text || !text.trim()) return "unspecified";
+
+    for (const match of text.matchAll(SLASH_RUN_PATTERN)) {
+        const pronouns = parseSlashRun(match[1]);
+        if (pronouns !== "unspecified") return pronouns;
+    }
+
+    if (BARE_ANY.test(text)) return "any pronouns";
+
+    for (const [pattern, normalized] of SPECIAL_PHRASES) {
+        if (pattern.test(text)) return normalized;
+    }
+
+    // "she/her/hers" or "he/they" - let the registry work out the sets
+    const words = text.toLowerCase().match(/[\p{L}'’]+/gu) ?? [];
+    const sets = resolvePronounSets(words.join("/"));
+
+    return formatPronounSets(sets);
+}
+
+export function parsePronounsFromBio(bio: string): string {
+    if (!bio || !bio.trim()) return "unspecified";
+
+    // An explicit set first, then phrases like "any pronouns"
+    for (const pattern of BIO_PATTERNS) {
+        // The global pattern can match unrelated slashes ("and/or"), so keep looking
+        const matches = pattern.global ? Array.from(bio.matchAll(pattern)) : [bio.match(pattern)];
+
+        for (const match of matches) {
+            if (!match) continue;
+
+            const pronouns = parseSlashRun(match[1]);
+            if (pronouns !== "unspecified") return pronouns;
+        }
+    }
+
+    for (const [pattern, normalized] of SPECIAL_PHRASES) {
+        if (pattern.test(bio)) return normalized;
+    }
+
+    return "unspecified";
+}
+
+// Only trust a slash run when every part of it is a pronoun I know
+function parseSlashRun(run: string): string {
+    const words = run.toLowerCase().split("/").map(w => w.trim());
+    const sets = resolvePronounSets(run);
+
+    const known = new Set(sets.flatMap(getSetWords));
+
+    if (sets.length === 0 || words.some(w => !known.has(w))) return "unspecified";
+
+    return formatPronounSets(sets);
+}
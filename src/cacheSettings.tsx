@@ -0,0 +1,69 @@
+import { Button, Forms, React, Text, UserStore, useState } from "@webpack/common";
+import { clearMyPronounCache, evictCachedPronouns, getMyCacheStats } from "./pronounCache";
+
+function getUserName(userId: string): string {
+    const user = UserStore.getUser(userId);
+    return user?.globalName || user?.username || userId;
+}
+
+function formatAge(age: number): string {
+    const minutes = Math.floor(age / 60000);
+    if (minutes < 1) return "just now";
+    if (minutes < 60) return `${minutes}m ago`;
+
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ago`;
+
+    return `${Math.floor(hours / 24)}d ago`;
+}
+
+// My cache section in the plugin settings: what I've cached, and a way to forget it
+export function CacheSettings() {
+    // Bumped after every change so the list re-reads the cache
+    const [, setVersion] = useState(0);
+    const refresh = () => setVersion(v => v + 1);
+
+    const stats = getMyCacheStats();
+    const entries = [...stats.entries].sort((a, b) => a.age - b.age);
+
+    return (
+        <div>
+            <Forms.FormTitle tag="h5">Pronoun cache</Forms.FormTitle>
+            <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 8 }}>
+                <Text variant="text-md/normal" style={{ flexGrow: 1 }}>
+                    {stats.size} {stats.size === 1 ? "person" : "people"} cached, {entries.filter(e => e.stale).length} due for a refresh
+                </Text>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    color={Button.Colors.RED}
+                    disabled={stats.size === 0}
+                    onClick={() => { clearMyPronounCache(); refresh(); }}
+                >
+                    Clear all
+                </Button>
+            </div>
+
+            <div style={{ maxHeight: 300, overflowY: "auto" }}>
+                {entries.map(entry => (
+                    <div key={entry.userId} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4 }}>
+                        <div style={{ flexGrow: 1 }}>
+                            <Text variant="text-sm/semibold">
+                                {getUserName(entry.userId)}: {entry.pronouns}
+                            </Text>
+                            <Text variant="text-xs/normal" style={{ color: "var(--text-muted)" }}>
+                                {entry.source ?? "no source had pronouns"} · {formatAge(entry.age)}{entry.stale ? " · stale" : ""}
+                            </Text>
+                        </div>
+                        <Button
+                            size={Button.Sizes.SMALL}
+                            color={Button.Colors.PRIMARY}
+                            onClick={() => { evictCachedPronouns(entry.userId); refresh(); }}
+                        >
+                            Forget
+                        </Button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
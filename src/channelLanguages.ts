@@ -0,0 +1,41 @@
+import * as DataStore from "@api/DataStore";
+import { Language } from "./languages";
+
+// The language I write in per channel, for the channels where guessing gets it wrong
+// (a Spanish server where half the messages are a single English word, say).
+
+const CHANNEL_LANGUAGES_KEY = "RoaringsPronounAutoCorrect_channelLanguages";
+
+const myChannelLanguages = new Map<string, Language>();
+
+function save(): void {
+    DataStore.set(CHANNEL_LANGUAGES_KEY, Object.fromEntries(myChannelLanguages)).catch((error: any) =>
+        console.warn("[RoaringsPronounAutoCorrect] Couldn't save my channel languages:", error)
+    );
+}
+
+export async function loadChannelLanguages(): Promise<void> {
+    try {
+        const stored: { [channelId: string]: Language } | undefined = await DataStore.get(CHANNEL_LANGUAGES_KEY);
+
+        for (const [channelId, language] of Object.entries(stored ?? {})) {
+            if (!myChannelLanguages.has(channelId)) myChannelLanguages.set(channelId, language);
+        }
+    } catch (error) {
+        console.warn("[RoaringsPronounAutoCorrect] Couldn't load my channel languages:", error);
+    }
+}
+
+export function getChannelLanguage(channelId: string): Language | undefined {
+    return myChannelLanguages.get(channelId);
+}
+
+// No language means I go back to my global setting for this channel
+export function setChannelLanguage(channelId: string, language: Language | undefined): void {
+    if (language) {
+        myChannelLanguages.set(channelId, language);
+    } else if (!myChannelLanguages.delete(channelId)) {
+        return;
+    }
+    save();
+}
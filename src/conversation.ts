@@ -0,0 +1,95 @@
+import { MessageStore, UserStore } from "@webpack/common";
+import { talksAboutThirdParty } from "./antecedents";
+import { Language } from "./languages";
+import { buildNameIndex, findIndexedNameReferences, NameCandidate } from "./nameMatcher";
+import { extractMentions } from "./pronounAutoCorrect";
+
+// Who the last few messages in a channel were about, so a pronoun with nobody mentioned
+// nearby can go to the person we've been talking about for a while instead of nobody, and
+// "my brother said he'd come" in a DM doesn't get pinned on the person I'm DMing.
+
+// Each message further back counts this much less than the one after it
+const RECENCY_DECAY = 0.7;
+
+// How many people I keep as "being discussed"
+const MAX_DISCUSSED = 3;
+
+// Only the newest messages can move the topic to someone who isn't on Discord
+const THIRD_PARTY_WINDOW = 2;
+
+export interface DiscussedPerson {
+    userId: string;
+    // Higher the more often and more recently they came up
+    weight: number;
+}
+
+export interface ConversationContext {
+    // Most talked about first
+    discussed: DiscussedPerson[];
+    // Who the latest message about anyone was about, when that was one person
+    focus?: string;
+    // One of the last couple of messages was about someone who isn't on Discord ("my boss said she'd…"),
+    // and nobody here came up since
+    thirdPartyTopic: boolean;
+}
+
+interface HistoryMessage {
+    authorId?: string;
+    content: string;
+}
+
+// Works on plain messages, oldest first, so it doesn't care where they came from
+export function buildConversationContext(
+    messages: HistoryMessage[],
+    nameCandidates: NameCandidate[],
+    language: Language = Language.ENGLISH
+): ConversationContext {
+    const myId = UserStore.getCurrentUser()?.id;
+    const weights = new Map<string, number>();
+    let latest: { userIds: Set<string>; thirdParty: boolean; } | undefined;
+
+    // The same people for every message, and with the whole server as my pool that's a lot of names
+    const nameIndex = buildNameIndex(nameCandidates, language);
+
+    for (let age = 0; age < messages.length; age++) {
+        const { authorId, content } = messages[messages.length - 1 - age];
+        if (!content) continue;
+
+        // Nobody's talking about themselves or me in a way my pronouns would be about
+        const userIds = new Set<string>([
+            ...extractMentions(content),
+            ...findIndexedNameReferences(content, nameIndex).map(r => r.userId)
+        ].filter(userId => userId !== myId && userId !== authorId));
+        const thirdParty = age < THIRD_PARTY_WINDOW && talksAboutThirdParty(content, language);
+
+        for (const userId of userIds) {
+            weights.set(userId, (weights.get(userId) ?? 0) + RECENCY_DECAY ** age);
+        }
+
+        if (!latest && (userIds.size > 0 || thirdParty)) latest = { userIds, thirdParty };
+    }
+
+    const discussed = Array.from(weights, ([userId, weight]) => ({ userId, weight }))
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, MAX_DISCUSSED);
+
+    return {
+        discussed,
+        focus: latest?.userIds.size === 1 ? [...latest.userIds][0] : undefined,
+        thirdPartyTopic: !!latest?.thirdParty && latest.userIds.size === 0
+    };
+}
+
+// The last `depth` messages in the channel, not counting the one I'm sending
+export function getConversationContext(
+    channelId: string,
+    nameCandidates: NameCandidate[],
+    depth: number,
+    language: Language = Language.ENGLISH
+): ConversationContext {
+    const messages = (MessageStore.getMessages(channelId)?.toArray?.() ?? [])
+        .slice(-depth)
+        .map((m: any) => ({ authorId: m.author?.id, content: m.content ?? "" }));
+
+    return buildConversationContext(messages, nameCandidates, language);
+}
@@ -0,0 +1,168 @@
+import * as DataStore from "@api/DataStore";
+import { MessageActions, MessageStore } from "@webpack/common";
+import { CorrectionResult } from "./pronounAutoCorrect";
+
+// Every correction I let through, with what I originally wrote, so a wrong one can be undone
+// by editing the sent message back. The message id isn't known until Discord confirms the
+// send, so a new entry waits for my next message in that channel with the corrected text.
+// That's the full text of my messages, so only the newest few I choose in settings are saved to
+// disk. The rest stay in memory for this session's Undo.
+
+const HISTORY_KEY = "RoaringsPronounAutoCorrect_correctionHistory";
+
+// Oldest entries go first past this
+const MAX_HISTORY = 200;
+
+// How many of the newest entries I save to disk, 0 for none
+let mySavedLimit = MAX_HISTORY;
+let myHistoryLoaded = false;
+
+// A sent message only counts as this correction if it arrives this soon after
+const LINK_WINDOW = 60 * 1000;
+
+// Wait a moment before writing, like my cache does
+const SAVE_DELAY = 2000;
+
+export interface CorrectionHistoryEntry {
+    id: string;
+    timestamp: number;
+    channelId: string;
+    // Set once Discord tells me which message it became
+    messageId?: string;
+    mode: string;
+    original: string;
+    corrected: string;
+    correctedWords: CorrectionResult["correctedWords"];
+    revertedAt?: number;
+    // I hit undo before the message finished sending
+    revertWhenSent?: boolean;
+}
+
+export interface RevertResult {
+    reverted: boolean;
+    // Why it didn't (or hasn't yet)
+    reason?: string;
+}
+
+let myHistory: CorrectionHistoryEntry[] = [];
+let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+// Messages I'm editing back to my original, which my pre-edit check must leave alone
+const myReverting = new Set<string>();
+
+function scheduleSave(): void {
+    if (saveTimeout) clearTimeout(saveTimeout);
+    saveTimeout = setTimeout(() => {
+        saveTimeout = null;
+        const saved = mySavedLimit > 0 ? myHistory.slice(-mySavedLimit) : [];
+        DataStore.set(HISTORY_KEY, saved).catch((error: any) =>
+            console.warn("[RoaringsPronounAutoCorrect] Couldn't save my correction history:", error)
+        );
+    }, SAVE_DELAY);
+}
+
+export function setSavedHistoryLimit(limit: number): void {
+    mySavedLimit = Math.max(0, Math.min(MAX_HISTORY, Math.round(limit)));
+
+    // Whatever I no longer want kept comes off the disk now, not on my next correction.
+    // Before loading there's nothing to prune, and saving would wipe what's stored.
+    if (myHistoryLoaded) scheduleSave();
+}
+
+export async function loadCorrectionHistory(): Promise<void> {
+    try {
+        const stored: CorrectionHistoryEntry[] | undefined = await DataStore.get(HISTORY_KEY);
+
+        // Anything I corrected while storage was loading stays, newest last
+        const ids = new Set(myHistory.map(e => e.id));
+        myHistory = [...(stored ?? []).filter(e => !ids.has(e.id)), ...myHistory].slice(-MAX_HISTORY);
+        myHistoryLoaded = true;
+
+        // Saved back under my limit, in case I lowered it since
+        if ((stored?.length ?? 0) > mySavedLimit) scheduleSave();
+    } catch (error) {
+        console.warn("[RoaringsPronounAutoCorrect] Couldn't load my correction history:", error);
+    }
+}
+
+export function addCorrectionToHistory(entry: Omit<CorrectionHistoryEntry, "id" | "timestamp">): CorrectionHistoryEntry {
+    const added: CorrectionHistoryEntry = {
+        ...entry,
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: Date.now()
+    };
+
+    myHistory.push(added);
+    if (myHistory.length > MAX_HISTORY) myHistory.splice(0, myHistory.length - MAX_HISTORY);
+    scheduleSave();
+
+    return added;
+}
+
+// My message just arrived from Discord. If it's a corrected one still waiting for its id, it is now.
+export function linkSentMessage(channelId: string, messageId: string, content: string): void {
+    const now = Date.now();
+    const entry = myHistory.find(e =>
+        !e.messageId && e.channelId === channelId && e.corrected === content && now - e.timestamp < LINK_WINDOW
+    );
+    if (!entry) return;
+
+    entry.messageId = messageId;
+    scheduleSave();
+
+    if (entry.revertWhenSent) {
+        revertCorrection(entry.id).then(({ reverted, reason }) => {
+            if (!reverted) console.warn("[RoaringsPronounAutoCorrect] Couldn't undo my correction:", reason);
+        });
+    }
+}
+
+export function getCorrectionHistory(): CorrectionHistoryEntry[] {
+    return [...myHistory];
+}
+
+export function clearCorrectionHistory(): void {
+    myHistory = [];
+    scheduleSave();
+}
+
+// True once for a message I'm reverting, so the edit goes through as my original wording
+export function consumeRevertingMessage(messageId: string): boolean {
+    return myReverting.delete(messageId);
+}
+
+// Edit the sent message back to what I wrote, unless I've changed it since
+export async function revertCorrection(entryId: string): Promise<RevertResult> {
+    const entry = myHistory.find(e => e.id === entryId);
+    if (!entry) return { reverted: false, reason: "That correction isn't in my history anymore" };
+    if (entry.revertedAt) return { reverted: false, reason: "Already undone" };
+
+    if (!entry.messageId) {
+        if (Date.now() - entry.timestamp >= LINK_WINDOW) {
+            return { reverted: false, reason: "I never saw that message arrive, so I can't edit it" };
+        }
+        entry.revertWhenSent = true;
+        return { reverted: false, reason: "Still sending, I'll undo it as soon as it's sent" };
+    }
+
+    const current = MessageStore.getMessage(entry.channelId, entry.messageId);
+    if (current && current.content !== entry.corrected) {
+        return { reverted: false, reason: "I've edited that message since, so I'm leaving it alone" };
+    }
+
+    // My pre-edit check usually consumes this, but it might never see the edit
+    myReverting.add(entry.messageId);
+    try {
+        await MessageActions.editMessage(entry.channelId, entry.messageId, { content: entry.original });
+    } catch (error: any) {
+        return { reverted: false, reason: error?.message ?? String(error) };
+    } finally {
+        myReverting.delete(entry.messageId);
+    }
+
+    entry.revertedAt = Date.now();
+    entry.revertWhenSent = false;
+    scheduleSave();
+
+    return { reverted: true };
+}
@@ -0,0 +1,199 @@
+import { checkResponse, limitedFetch } from "./sourceHealth";
+
+// Talks to my own pronoun service, whatever shape it has: custom headers and method,
+// a JSON path to the pronouns, my own codes mapped to real pronouns, and an optional
+// batch endpoint so one request covers everyone in my message.
+
+export enum HttpMethod {
+    GET = "GET",
+    POST = "POST"
+}
+
+export interface CustomApiConfig {
+    // {userId} is replaced with the person I'm looking up
+    url: string;
+    method: HttpMethod;
+    headers: { [name: string]: string; };
+    // Sent with POST. {userId} and {userIds} (a JSON array) are filled in, empty means a default body
+    body: string;
+    // Where the pronouns are in the response, e.g. $.data.profile.pronouns
+    jsonPath: string;
+    // My service's codes to real pronouns, lowercased, e.g. "f" → "she/her"
+    valueMap: { [code: string]: string; };
+    // {userIds} is replaced with everyone's ids, comma-separated. Empty means no batch endpoint.
+    batchUrl: string;
+    // Where one person's pronouns are in the batch response, with {userId} filled in
+    batchJsonPath: string;
+}
+
+// The plugin settings I build my config from
+export interface CustomApiSettings {
+    customApiUrl?: string;
+    customApiMethod?: HttpMethod;
+    customApiHeaders?: string;
+    customApiBody?: string;
+    customApiJsonPath?: string;
+    customApiValueMap?: string;
+    customApiBatchUrl?: string;
+    customApiBatchJsonPath?: string;
+}
+
+export interface CustomApiTestResult {
+    url: string;
+    status?: number;
+    // The response as text, cut short so it fits in settings
+    response?: string;
+    // What my JSON path found, after my value mapping
+    extracted?: string;
+    error?: string;
+}
+
+// The batch endpoint gets at most this many ids per request
+const CUSTOM_BATCH_SIZE = 50;
+
+const MAX_TEST_RESPONSE_LENGTH = 1000;
+
+// One entry per line (or separated by ";"), split at the first separator
+function parseLines(spec: string | undefined, separator: string): Array<[string, string]> {
+    if (!spec) return [];
+
+    const entries: Array<[string, string]> = [];
+    for (const line of spec.split(/[\n;]/)) {
+        const index = line.indexOf(separator);
+        if (index <= 0) {
+            if (line.trim()) console.warn(`[RoaringsPronounAutoCorrect] Skipping "${line.trim()}" in my custom API settings - it needs a "${separator}"`);
+            continue;
+        }
+        entries.push([line.slice(0, index).trim(), line.slice(index + 1).trim()]);
+    }
+    return entries;
+}
+
+export function readCustomApiConfig(settings: CustomApiSettings): CustomApiConfig {
+    return {
+        url: settings.customApiUrl?.trim() ?? "",
+        method: settings.customApiMethod ?? HttpMethod.GET,
+        headers: Object.fromEntries(parseLines(settings.customApiHeaders, ":")),
+        body: settings.customApiBody?.trim() ?? "",
+        jsonPath: settings.customApiJsonPath?.trim() || "$.pronouns",
+        valueMap: Object.fromEntries(parseLines(settings.customApiValueMap, "=").map(([code, pronouns]) => [code.toLowerCase(), pronouns])),
+        batchUrl: settings.customApiBatchUrl?.trim() ?? "",
+        batchJsonPath: settings.customApiBatchJsonPath?.trim() || "$.{userId}.pronouns"
+    };
+}
+
+// A small JSON path: $.a.b, a.b, items[0], ['odd key'] and [id=123] to pick the array item whose id is 123
+export function evaluateJsonPath(data: any, path: string): any {
+    const segments = path.trim().replace(/^\$\.?/, "").match(/[^.[\]]+|\[[^\]]*\]/g) ?? [];
+    let current = data;
+
+    for (const segment of segments) {
+        if (current == null) return undefined;
+
+        if (!segment.startsWith("[")) {
+            current = current[segment];
+            continue;
+        }
+
+        const inner = segment.slice(1, -1).trim();
+        const quoted = inner.match(/^(['"])(.*)\1$/);
+        const filter = inner.match(/^([^=]+)=(.*)$/);
+
+        if (quoted) {
+            current = current[quoted[2]];
+        } else if (/^\d+$/.test(inner)) {
+            current = Array.isArray(current) ? current[Number(inner)] : current[inner];
+        } else if (filter && Array.isArray(current)) {
+            const [, key, value] = filter;
+            const wanted = value.trim().replace(/^(['"])(.*)\1$/, "$2");
+            current = current.find(item => item != null && String(evaluateJsonPath(item, key)) === wanted);
+        } else {
+            current = current[inner];
+        }
+    }
+
+    return current;
+}
+
+// Pronouns from a response. Arrays like ["she", "they"] become "she/they", and my codes are mapped.
+export function extractPronouns(data: any, path: string, config: CustomApiConfig): string | undefined {
+    const value = evaluateJsonPath(data, path);
+    if (value == null || value === "") return undefined;
+
+    const text = Array.isArray(value) ? value.map(String).join("/") : String(value);
+    return config.valueMap[text.trim().toLowerCase()] ?? text.trim();
+}
+
+function fillTemplate(template: string, userIds: string[], encode: boolean): string {
+    const ids = encode ? userIds.map(encodeURIComponent) : userIds;
+    return template
+        .replace(/{userIds}/g, encode ? ids.join(",") : JSON.stringify(ids))
+        .replace(/{userId}/g, ids[0] ?? "");
+}
+
+async function request(config: CustomApiConfig, url: string, userIds: string[], batch: boolean, signal?: AbortSignal): Promise<Response> {
+    const init: RequestInit = { method: config.method, headers: { ...config.headers }, signal };
+
+    if (config.method === HttpMethod.POST) {
+        const defaultBody = batch ? JSON.stringify({ userIds }) : JSON.stringify({ userId: userIds[0] });
+        init.body = config.body ? fillTemplate(config.body, userIds, false) : defaultBody;
+
+        const headers = init.headers as { [name: string]: string; };
+        if (!Object.keys(headers).some(name => name.toLowerCase() === "content-type")) {
+            headers["Content-Type"] = "application/json";
+        }
+    }
+
+    return await limitedFetch(fillTemplate(url, userIds, true), init);
+}
+
+async function requestJson(config: CustomApiConfig, url: string, userIds: string[], batch: boolean, signal?: AbortSignal): Promise<any> {
+    const response = await request(config, url, userIds, batch, signal);
+    checkResponse(response, "My custom API");
+    return await response.json();
+}
+
+// One person. Undefined means my service doesn't have pronouns for them.
+export async function fetchFromCustomApi(userId: string, config: CustomApiConfig, signal?: AbortSignal): Promise<string | undefined> {
+    const data = await requestJson(config, config.url, [userId], false, signal);
+    return extractPronouns(data, config.jsonPath, config);
+}
+
+// Everyone at once through my batch endpoint. People missing from the response just aren't in the map.
+export async function fetchBatchFromCustomApi(userIds: string[], config: CustomApiConfig, signal?: AbortSignal): Promise<Map<string, string>> {
+    const results = new Map<string, string>();
+
+    for (let i = 0; i < userIds.length; i += CUSTOM_BATCH_SIZE) {
+        const batch = userIds.slice(i, i + CUSTOM_BATCH_SIZE);
+        const data = await requestJson(config, config.batchUrl, batch, true, signal);
+
+        for (const userId of batch) {
+            const pronouns = extractPronouns(data, config.batchJsonPath.replace(/{userId}/g, userId), config);
+            if (pronouns) results.set(userId, pronouns);
+        }
+    }
+
+    return results;
+}
+
+// For the "Test this API" button: what I sent, what came back and what I made of it
+export async function testCustomApi(userId: string, config: CustomApiConfig, useBatch: boolean): Promise<CustomApiTestResult> {
+    const url = useBatch ? config.batchUrl : config.url;
+    const result: CustomApiTestResult = { url: fillTemplate(url, [userId], true) };
+
+    try {
+        const response = await request(config, url, [userId], useBatch);
+        result.status = response.status;
+
+        const text = await response.text();
+        result.response = text.length > MAX_TEST_RESPONSE_LENGTH ? `${text.slice(0, MAX_TEST_RESPONSE_LENGTH)}…` : text;
+        if (!response.ok) throw new Error(`My custom API error: ${response.status}`);
+
+        const path = useBatch ? config.batchJsonPath.replace(/{userId}/g, userId) : config.jsonPath;
+        result.extracted = extractPronouns(JSON.parse(text), path, config);
+    } catch (error: any) {
+        result.error = error?.message ?? String(error);
+    }
+
+    return result;
+}
@@ -0,0 +1,71 @@
+import { Settings } from "@api/Settings";
+import { Button, Forms, React, Text, TextInput, UserStore, useState } from "@webpack/common";
+import { CustomApiTestResult, readCustomApiConfig } from "./customApi";
+import { testMyCustomAPI } from "./pronounAutoCorrect";
+
+function Row({ label, value }: { label: string; value?: string | number; }) {
+    if (value === undefined || value === "") return null;
+
+    return (
+        <div style={{ marginTop: 4 }}>
+            <Text variant="text-sm/semibold">{label}</Text>
+            <Text variant="code" style={{ whiteSpace: "pre-wrap", wordBreak: "break-all" }}>{String(value)}</Text>
+        </div>
+    );
+}
+
+// "Test this API" in the plugin settings: one lookup with my current settings, shown step by step
+export function CustomApiTest() {
+    const [userId, setUserId] = useState(UserStore.getCurrentUser()?.id ?? "");
+    const [testing, setTesting] = useState(false);
+    const [result, setResult] = useState<(CustomApiTestResult & { pronouns?: string; }) | null>(null);
+
+    const config = readCustomApiConfig(Settings.plugins.RoaringsPronounAutoCorrect);
+
+    const test = async (useBatch: boolean) => {
+        setTesting(true);
+        setResult(null);
+        try {
+            setResult(await testMyCustomAPI(userId.trim(), config, useBatch));
+        } finally {
+            setTesting(false);
+        }
+    };
+
+    return (
+        <div>
+            <Forms.FormTitle tag="h5">Test my custom API</Forms.FormTitle>
+            <Forms.FormText style={{ marginBottom: 8 }}>
+                Looks up one user with my current settings and shows what I'd make of the answer.
+            </Forms.FormText>
+
+            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                <div style={{ flexGrow: 1 }}>
+                    <TextInput value={userId} placeholder="User ID" onChange={(v: string) => setUserId(v)} />
+                </div>
+                <Button size={Button.Sizes.SMALL} disabled={testing || !userId.trim() || !config.url} onClick={() => test(false)}>
+                    Test this API
+                </Button>
+                {config.batchUrl && (
+                    <Button size={Button.Sizes.SMALL} color={Button.Colors.PRIMARY} disabled={testing || !userId.trim()} onClick={() => test(true)}>
+                        Test batch URL
+                    </Button>
+                )}
+            </div>
+
+            {result && (
+                <div style={{ marginTop: 8 }}>
+                    <Row label="Request" value={`${config.method} ${result.url}`} />
+                    <Row label="Status" value={result.status} />
+                    <Row label="Response" value={result.response} />
+                    {result.error
+                        ? <Text variant="text-sm/normal" style={{ color: "var(--text-danger)", marginTop: 4 }}>{result.error}</Text>
+                        : <>
+                            <Row label="Found at my JSON path" value={result.extracted ?? "(nothing)"} />
+                            <Row label="Pronouns I'd use" value={result.pronouns} />
+                        </>}
+                </div>
+            )}
+        </div>
+    );
+}
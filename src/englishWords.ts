@@ -0,0 +1,56 @@
+// Everyday English words people also pick as display names or usernames ("lunch", "pixel", "coffee").
+// Not a dictionary, just the words that show up in chat often enough to be mistaken for someone.
+
+export const ENGLISH_WORDS = new Set([
+    // Food and drink
+    "lunch", "dinner", "breakfast", "brunch", "snack", "coffee", "tea", "milk", "water", "juice", "soda", "pizza",
+    "pasta", "bread", "toast", "cake", "cookie", "candy", "sugar", "honey", "butter", "cheese", "apple", "banana",
+    "cherry", "peach", "lemon", "mango", "berry", "soup", "rice", "noodle", "noodles", "taco", "burger", "fries",
+    "chips", "salt", "pepper", "spice", "ginger", "mint", "cocoa", "mocha", "latte", "waffle", "pancake", "muffin",
+    // Time
+    "today", "tomorrow", "yesterday", "tonight", "morning", "evening", "night", "noon", "midnight", "week",
+    "weekend", "month", "year", "hour", "minute", "second", "moment", "later", "soon", "early", "late", "spring",
+    "autumn", "fall", "winter", "season", "holiday",
+    // Weather and nature
+    "rain", "snow", "storm", "thunder", "cloud", "wind", "sun", "moon", "star", "stars", "sky", "ocean", "sea",
+    "river", "lake", "forest", "tree", "leaf", "flower", "stone", "rock", "fire", "ice", "frost", "mist", "fog",
+    "shadow", "light", "dark", "dust", "ash", "ember", "echo", "wave", "tide", "meadow",
+    // Animals
+    "cat", "dog", "fox", "wolf", "bear", "bird", "crow", "raven", "owl", "fish", "frog", "bunny", "rabbit",
+    "mouse", "rat", "snake", "dragon", "tiger", "lion", "panda", "duck", "goose", "bee", "moth", "spider",
+    "kitten", "puppy", "otter", "deer", "horse", "shark", "whale", "octopus", "squid", "crab", "sheep", "goat",
+    // Things
+    "game", "games", "stream", "server", "channel", "message", "phone", "computer", "laptop", "keyboard",
+    "screen", "music", "song", "video", "movie", "book", "paper", "pen", "pencil", "box", "bag",
+    "door", "window", "house", "home", "room", "bed", "chair", "table", "car", "bus", "train", "bike", "road",
+    "street", "city", "town", "school", "work", "job", "office", "class", "team", "party", "event", "photo",
+    "picture", "art", "code", "bug", "pixel", "byte", "bit", "data", "link", "file", "folder", "button", "key",
+    "lock", "clock", "watch", "ring", "chain", "coin", "money", "gold", "silver", "glass", "mirror", "candle",
+    "blanket", "pillow", "sock", "socks", "shoe", "shoes", "hat", "cap", "shirt", "coat", "jacket",
+    // People and roles
+    "friend", "friends", "buddy", "pal", "mate", "boss", "admin", "mod", "user", "player", "guest", "someone",
+    "nobody", "anyone", "everyone", "people", "person", "guy", "guys", "girl", "boy", "kid", "baby", "mom",
+    "dad", "king", "queen", "prince", "princess", "knight", "wizard", "witch", "ghost", "angel", "devil",
+    "hero", "chef", "doctor", "teacher", "student", "artist", "writer", "gamer", "coder",
+    // Verbs
+    "go", "going", "went", "come", "coming", "came", "get", "got", "make", "made", "take", "took", "see", "saw",
+    "look", "play", "playing", "played", "working", "worked", "sleep", "sleeping", "eat",
+    "eating", "drink", "run", "running", "walk", "talk", "talking", "say", "said", "tell", "told", "ask",
+    "asked", "help", "want", "need", "like", "love", "hate", "think", "know", "feel", "try", "wait", "stop",
+    "start", "finish", "win", "lose", "lost", "move", "stay", "leave", "left", "call", "send", "sent", "read",
+    "write", "draw", "sing", "dance", "jump", "fly", "swim", "cook", "bake", "build", "break", "fix", "pick",
+    "chill", "rest", "hang", "vibe", "vibing", "ping", "post", "share", "check", "join", "joined", "quit",
+    // Adjectives and adverbs
+    "good", "bad", "great", "nice", "cool", "fine", "sure", "happy", "sad", "angry", "tired", "sleepy",
+    "hungry", "busy", "free", "new", "old", "young", "big", "small", "tiny", "little", "long", "short",
+    "fast", "slow", "quick", "hot", "cold", "warm", "soft", "hard", "easy", "funny", "weird", "strange",
+    "cute", "sweet", "kind", "wild", "calm", "quiet", "loud", "bright", "blue", "red", "green", "yellow",
+    "pink", "purple", "orange", "black", "white", "grey", "gray", "brown", "real", "true", "fake", "lucky",
+    "random", "simple", "silent", "lazy", "crazy", "cozy", "fuzzy", "salty", "spicy", "sunny", "stormy",
+    "really", "very", "maybe", "always", "never", "again", "still", "just", "only", "also", "too", "well",
+    "back", "away", "now", "then", "there", "here", "done", "ready", "over", "right", "wrong",
+    // Chat words
+    "hello", "hi", "hey", "bye", "thanks", "thank", "please", "sorry", "yeah", "yep", "nope", "nah", "lol",
+    "lmao", "omg", "idk", "brb", "gg", "wow", "oops", "ugh", "hmm", "meme", "memes", "chat", "dm", "dms",
+    "welcome", "cheers", "bruh", "oof", "yay", "same", "mood", "vibes", "anyway"
+]);
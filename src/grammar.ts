@@ -0,0 +1,268 @@
+import { Language, resolveLanguageForm } from "./languages";
+import { getPronounForms, PronounForm } from "./pronounRegistry";
+
+// Small grammar helpers so my corrections read like something I actually wrote.
+// These are heuristics for casual chat, not a full parser.
+
+export interface GrammarEdit {
+    original: string;
+    corrected: string;
+    position: number;
+    reason: string;
+}
+
+// Words that can't be the noun after a possessive "her" or "his",
+// so "I told her about it" keeps "her" an object
+const NOT_A_NOUN = new Set([
+    // Determiners and pronouns
+    "a", "an", "the", "this", "that", "these", "those", "some", "any", "my", "your", "our",
+    "i", "me", "you", "we", "us", "he", "him", "she", "her", "it", "they", "them", "someone", "something",
+    // Prepositions and conjunctions
+    "about", "above", "after", "at", "before", "behind", "by", "for", "from", "in", "into", "of", "off",
+    "on", "out", "over", "through", "to", "under", "up", "down", "with", "without", "and", "or", "but",
+    "so", "because", "if", "when", "while", "than", "as", "though",
+    // Verbs and auxiliaries
+    "is", "are", "was", "were", "be", "been", "am", "has", "have", "had", "do", "does", "did",
+    "will", "would", "can", "could", "should", "may", "might", "must",
+    "go", "come", "know", "see", "get", "help", "make", "feel", "think", "tell", "let", "want",
+    // Adverbs of time and degree
+    "again", "today", "tomorrow", "yesterday", "tonight", "now", "then", "too", "very", "really",
+    "already", "yet", "back", "later", "soon", "here", "there", "either", "anyway"
+]);
+
+// Nobody takes "her" as an object right after these, so a noun after it makes it possessive:
+// "with her car", "that's her phone"
+const POSSESSIVE_CONTEXTS = new Set([
+    "about", "at", "by", "for", "from", "in", "into", "of", "on", "over", "to", "with", "without",
+    "is", "was", "are", "were", "be", "been", "s", "re"
+]);
+
+// Words that come between a possessive and its noun ("her own", "her new job")
+const NOUN_MODIFIERS = new Set([
+    "own", "new", "old", "best", "first", "last", "next", "favorite", "favourite", "little", "big",
+    "older", "younger", "whole", "other", "only", "usual", "current", "main"
+]);
+
+// Nouns that commonly follow a possessive in chat. Anything else after "her" is too
+// ambiguous ("I made her laugh", "I bought her lunch"), so it stays an object.
+const COMMON_NOUNS = new Set([
+    "mom", "mum", "mother", "dad", "father", "parents", "sister", "brother", "family", "friend", "friends",
+    "partner", "boyfriend", "girlfriend", "husband", "wife", "kid", "kids", "son", "daughter", "boss",
+    "team", "name", "car", "house", "room", "place", "phone", "job", "project", "code", "game", "games",
+    "stream", "art", "book", "birthday", "dog", "cat", "hair", "face", "voice", "opinion", "idea",
+    "account", "profile", "server", "channel", "message", "messages", "post", "video", "music", "song",
+    "life", "pronouns", "stuff", "work", "pc", "computer", "pr", "fault", "turn", "side"
+]);
+
+// The auxiliaries a question puts before its subject: "is she coming?"
+const AUXILIARIES = new Set([
+    "is", "was", "has", "does", "isn't", "wasn't", "hasn't", "doesn't",
+    "are", "were", "have", "do", "aren't", "weren't", "haven't", "don't"
+]);
+
+// Words that start a clause, so a pronoun right after them is a subject
+const CLAUSE_STARTERS = new Set([
+    "and", "but", "or", "so", "because", "since", "if", "when", "while", "that", "though", "although",
+    "unless", "until", "after", "before", "once", "whether", "think", "guess", "hope", "said", "says"
+]);
+
+// Adverbs I can step over to reach the verb ("she really likes it")
+const SKIPPABLE_ADVERBS = new Set([
+    "really", "just", "also", "always", "never", "still", "often", "usually", "actually", "even",
+    "only", "sometimes", "already", "probably", "definitely", "totally", "literally", "basically",
+    "kinda", "sorta", "finally", "rarely", "seldom", "generally"
+]);
+
+const SINGULAR_TO_PLURAL: { [key: string]: string } = {
+    "is": "are",
+    "was": "were",
+    "has": "have",
+    "does": "do",
+    "goes": "go",
+    "isn't": "aren't",
+    "wasn't": "weren't",
+    "hasn't": "haven't",
+    "doesn't": "don't"
+};
+
+const PLURAL_TO_SINGULAR: { [key: string]: string } = Object.fromEntries(
+    Object.entries(SINGULAR_TO_PLURAL).map(([singular, plural]) => [plural, singular])
+);
+
+// Words ending in "s" after a subject that aren't third-person verbs
+const NOT_THIRD_PERSON = new Set(["always", "perhaps", "sometimes", "thus", "plus", "unless", "less", "yes", "its", "his", "hers", "theirs", "us"]);
+
+// Base forms I'm confident are verbs, for "they go" → "she goes".
+// Anything else after "they" is left alone, since it could be a past tense or an adverb.
+const COMMON_VERBS = new Set([
+    "ask", "bring", "build", "buy", "call", "care", "carry", "change", "code", "come", "cook", "cry",
+    "die", "draw", "drive", "eat", "feel", "find", "finish", "fix", "freeze", "get", "give", "go",
+    "guess", "hate", "help", "hope", "keep", "know", "laugh", "lie", "like", "live", "look", "love",
+    "make", "mean", "miss", "move", "need", "pass", "play", "plan", "post", "push", "reach", "read",
+    "run", "say", "see", "seem", "send", "sing", "sleep", "speak", "stay", "stream", "study", "take",
+    "talk", "teach", "tell", "think", "try", "use", "wait", "walk", "want", "watch", "wish", "work",
+    "worry", "write"
+]);
+
+function isLetter(char: string | undefined): boolean {
+    return !!char && /[\p{L}'’]/u.test(char);
+}
+
+// The word right after `index`, unless punctuation gets in the way
+function nextWord(text: string, index: number): { word: string; position: number; } | null {
+    let i = index;
+    while (i < text.length && /[ \t]/.test(text[i])) i++;
+    if (!isLetter(text[i])) return null;
+
+    const start = i;
+    while (i < text.length && isLetter(text[i])) i++;
+    return { word: text.slice(start, i), position: start };
+}
+
+// The word right before `index`, unless punctuation gets in the way
+function previousWord(text: string, index: number): { word: string; position: number; } | null {
+    let i = index - 1;
+    while (i >= 0 && /[ \t]/.test(text[i])) i--;
+    if (!isLetter(text[i])) return null;
+
+    const end = i + 1;
+    while (i >= 0 && isLetter(text[i])) i--;
+    return { word: text.slice(i + 1, end), position: i + 1 };
+}
+
+function looksLikeNoun(word: string | undefined): boolean {
+    if (!word) return false;
+    const lower = word.toLowerCase();
+    return !NOT_A_NOUN.has(lower) && !(lower.endsWith("ly") && lower.length > 4);
+}
+
+// Whether "her" (or any word that's both an object and a possessive) is possessive here.
+// Only with a likely noun after it, or where an object can't go, otherwise it's an object.
+function isPossessiveDeterminer(text: string, position: number, word: string): boolean {
+    const next = nextWord(text, position + word.length)?.word.toLowerCase();
+    if (!next || !looksLikeNoun(next)) return false;
+    if (COMMON_NOUNS.has(next) || NOUN_MODIFIERS.has(next)) return true;
+
+    // "Her car is red", "with her car", "that's her car"
+    const previous = previousWord(text, position)?.word.toLowerCase().replace(/^.*['’]/, "");
+    return !previous || POSSESSIVE_CONTEXTS.has(previous);
+}
+
+// Work out which form an ambiguous pronoun is from the words around it:
+// "her project" is a determiner, "I saw her" is an object, "that's his" is a possessive pronoun
+export function resolvePronounForm(text: string, position: number, word: string, language: Language = Language.ENGLISH): PronounForm | undefined {
+    const forms = getPronounForms(word, language);
+    if (forms.length <= 1) return forms[0];
+
+    // My heuristics below are English, other languages bring their own
+    if (language !== Language.ENGLISH) return resolveLanguageForm(text, position, word, forms, language);
+
+    if (forms.includes("possessiveDeterminer")) {
+        // "her": an object unless it's clearly possessive
+        if (forms.includes("object")) return isPossessiveDeterminer(text, position, word) ? "possessiveDeterminer" : "object";
+
+        // "his": a noun after it is its own, otherwise it stands alone ("that's his")
+        if (looksLikeNoun(nextWord(text, position + word.length)?.word)) return "possessiveDeterminer";
+        if (forms.includes("possessivePronoun")) return "possessivePronoun";
+    }
+
+    if (forms.includes("subject") && forms.includes("object")) {
+        const previous = previousWord(text, position)?.word;
+        return !previous || CLAUSE_STARTERS.has(previous.toLowerCase()) ? "subject" : "object";
+    }
+
+    return forms[0];
+}
+
+// Fix the verb after a subject pronoun whose number changed: "she is" → "they are", "they go" → "he goes",
+// or the auxiliary before it in a question: "is she coming?" → "are they coming?"
+export function fixVerbAgreement(text: string, pronounStart: number, pronounEnd: number, toPlural: boolean): GrammarEdit | null {
+    const auxiliary = previousWord(text, pronounStart);
+    if (auxiliary && AUXILIARIES.has(auxiliary.word.toLowerCase())) {
+        const lower = auxiliary.word.toLowerCase();
+        const corrected = toPlural ? SINGULAR_TO_PLURAL[lower] : PLURAL_TO_SINGULAR[lower];
+        if (!corrected) return null;
+
+        return {
+            original: auxiliary.word,
+            corrected: preserveCase(auxiliary.word, corrected),
+            position: auxiliary.position,
+            reason: "verb agreement"
+        };
+    }
+
+    // Contractions hang right off the pronoun: "she's" → "they're", "they've" → "he's"
+    const contraction = text.slice(pronounEnd).match(/^['’](s|re|ve)\b/i);
+    if (contraction) {
+        const [original, suffix] = contraction;
+        const apostrophe = original[0];
+        const lowerSuffix = suffix.toLowerCase();
+
+        let corrected: string | null = null;
+        if (toPlural && lowerSuffix === "s") {
+            // "she's been" is "she has been", everything else I treat as "is"
+            const following = nextWord(text, pronounEnd + original.length)?.word.toLowerCase();
+            corrected = following === "been" || following === "got" ? "ve" : "re";
+        } else if (!toPlural && (lowerSuffix === "re" || lowerSuffix === "ve")) {
+            corrected = "s";
+        }
+
+        if (!corrected) return null;
+        return {
+            original,
+            corrected: apostrophe + preserveCase(suffix, corrected),
+            position: pronounEnd,
+            reason: "verb agreement"
+        };
+    }
+
+    // Step over a couple of adverbs to find the verb
+    let next = nextWord(text, pronounEnd);
+    for (let skipped = 0; next && SKIPPABLE_ADVERBS.has(next.word.toLowerCase()) && skipped < 2; skipped++) {
+        next = nextWord(text, next.position + next.word.length);
+    }
+    if (!next) return null;
+
+    const verb = next.word;
+    const corrected = toPlural ? toPluralVerb(verb.toLowerCase()) : toSingularVerb(verb.toLowerCase());
+    if (!corrected || corrected === verb.toLowerCase()) return null;
+
+    return {
+        original: verb,
+        corrected: preserveCase(verb, corrected),
+        position: next.position,
+        reason: "verb agreement"
+    };
+}
+
+export function toPluralVerb(verb: string): string | null {
+    if (SINGULAR_TO_PLURAL[verb]) return SINGULAR_TO_PLURAL[verb];
+    if (NOT_THIRD_PERSON.has(verb) || verb.length < 3 || /(ss|us|is|'s|’s)$/.test(verb)) return null;
+
+    if (/^[^aeiou]ies$|[aeiou]ies$/.test(verb)) return verb.slice(0, -1); // lies → lie, dies → die
+    if (/[^aeiou]ies$/.test(verb)) return verb.slice(0, -3) + "y"; // tries → try
+    if (/(ss|sh|ch|x|zz)es$/.test(verb)) return verb.slice(0, -2); // passes → pass, watches → watch, fixes → fix
+    if (/[^aeiou]oes$/.test(verb)) return verb.slice(0, -2); // goes → go, echoes → echo
+    if (verb.endsWith("s")) return verb.slice(0, -1); // likes → like, freezes → freeze
+
+    return null; // Already plural or not a present-tense verb ("she went")
+}
+
+export function toSingularVerb(verb: string): string | null {
+    if (PLURAL_TO_SINGULAR[verb]) return PLURAL_TO_SINGULAR[verb];
+    if (!COMMON_VERBS.has(verb)) return null;
+
+    if (/[^aeiou]y$/.test(verb)) return verb.slice(0, -1) + "ies"; // try → tries
+    if (/(sh|ch|x|zz|o|ss)$/.test(verb)) return verb + "es"; // watch → watches, miss → misses, buzz → buzzes
+    return verb + "s";
+}
+
+export function preserveCase(original: string, replacement: string): string {
+    if (original === original.toUpperCase() && original !== original.toLowerCase()) {
+        return replacement.toUpperCase(); // ALL CAPS
+    } else if (original[0] === original[0].toUpperCase() && original[0] !== original[0].toLowerCase()) {
+        return replacement.charAt(0).toUpperCase() + replacement.slice(1).toLowerCase(); // Title Case
+    } else {
+        return replacement.toLowerCase(); // lowercase
+    }
+}
@@ -0,0 +1,90 @@
+import { Alerts, Button, ChannelStore, Forms, GuildStore, React, showToast, Text, Toasts, UserStore, useState } from "@webpack/common";
+import { clearCorrectionHistory, CorrectionHistoryEntry, getCorrectionHistory, revertCorrection } from "./correctionHistory";
+
+function getUserName(userId: string): string {
+    const user = UserStore.getUser(userId);
+    return user?.globalName || user?.username || userId;
+}
+
+function describeChannel(channelId: string): string {
+    const channel = ChannelStore.getChannel(channelId);
+    if (!channel) return "a channel I can't see anymore";
+    if (!channel.guild_id) return `DM with ${(channel.recipients ?? []).map(getUserName).join(", ") || "someone"}`;
+
+    const guild = GuildStore.getGuild(channel.guild_id)?.name;
+    return guild ? `#${channel.name} (${guild})` : `#${channel.name}`;
+}
+
+function HistoryEntry({ entry, onChange }: { entry: CorrectionHistoryEntry; onChange: () => void; }) {
+    const [reverting, setReverting] = useState(false);
+
+    const revert = async () => {
+        setReverting(true);
+        const { reverted, reason } = await revertCorrection(entry.id);
+        setReverting(false);
+
+        if (!reverted) showToast(reason ?? "Couldn't revert that correction", Toasts.Type.MESSAGE);
+        onChange();
+    };
+
+    const words = entry.correctedWords.map(w => `"${w.original}" → "${w.corrected}"`).join(", ");
+
+    return (
+        <div style={{ display: "flex", alignItems: "flex-start", gap: 8, marginBottom: 8 }}>
+            <div style={{ flexGrow: 1, minWidth: 0 }}>
+                <Text variant="text-xs/normal" style={{ color: "var(--text-muted)" }}>
+                    {new Date(entry.timestamp).toLocaleString()} · {describeChannel(entry.channelId)}
+                    {entry.revertedAt ? " · reverted" : ""}
+                </Text>
+                <Text variant="text-sm/semibold">{words}</Text>
+                <Text variant="text-sm/normal" style={{ color: "var(--text-muted)" }}>I wrote: {entry.original}</Text>
+                <Text variant="text-sm/normal">Sent: {entry.corrected}</Text>
+            </div>
+            <Button
+                size={Button.Sizes.SMALL}
+                color={Button.Colors.PRIMARY}
+                disabled={reverting || !!entry.revertedAt || !entry.messageId}
+                onClick={revert}
+            >
+                Revert
+            </Button>
+        </div>
+    );
+}
+
+// My correction history in the plugin settings, newest first, with a way to undo each one
+export function HistorySettings() {
+    // Bumped after every change so the list re-reads my history
+    const [, setVersion] = useState(0);
+    const refresh = () => setVersion(v => v + 1);
+
+    const history = getCorrectionHistory().reverse();
+
+    const clear = () => Alerts.show({
+        title: "Clear my correction history?",
+        body: "I won't be able to revert any of these corrections afterwards.",
+        confirmText: "Clear",
+        confirmColor: Button.Colors.RED,
+        cancelText: "Cancel",
+        onConfirm: () => {
+            clearCorrectionHistory();
+            refresh();
+        }
+    });
+
+    return (
+        <div>
+            <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 8 }}>
+                <Forms.FormTitle tag="h5" style={{ flexGrow: 1, marginBottom: 0 }}>Correction history</Forms.FormTitle>
+                <Button size={Button.Sizes.SMALL} color={Button.Colors.RED} disabled={history.length === 0} onClick={clear}>
+                    Clear
+                </Button>
+            </div>
+            {history.length === 0 && <Forms.FormText>No corrections yet</Forms.FormText>}
+
+            <div style={{ maxHeight: 400, overflowY: "auto" }}>
+                {history.map(entry => <HistoryEntry key={entry.id} entry={entry} onChange={refresh} />)}
+            </div>
+        </div>
+    );
+}
@@ -1,17 +1,80 @@
 import definePlugin, { OptionType } from "@utils/types";
-import { addPreSendListener, removePreSendListener } from "@api/MessageEvents";
-import { UserStore, ChannelStore, Toasts } from "@webpack/common";
+import { ApplicationCommandInputType, ApplicationCommandOptionType, findOption, sendBotMessage } from "@api/Commands";
+import { addPreEditListener, addPreSendListener, removePreEditListener, removePreSendListener } from "@api/MessageEvents";
+import { UserStore, ChannelStore, GuildMemberStore, MessageStore, SelectedChannelStore, Toasts } from "@webpack/common";
 import { showToast } from "@webpack/common";
 import { 
-    fetchPronouns, 
-    detectPronounMismatches, 
-    correctPronouns,
+    fetchPronouns,
+    fetchPronounsForUsers, 
+    peekPronounsForUsers,
+    detectPronounIssues, 
+    applyCorrections,
+    CorrectionResult,
     extractMentions,
+    FetchOptions,
     PronounSource,
-    CorrectionMode 
+    PronounCorrection,
+    PronounIssues,
+    PronounNotice,
+    ScoredPronoun,
+    CorrectionMode,
+    SpecialPronounBehavior
 } from "./pronounAutoCorrect";
+import { Referent } from "./antecedents";
+import { CacheSettings } from "./cacheSettings";
+import { addCorrectionToHistory, consumeRevertingMessage, linkSentMessage, loadCorrectionHistory, setSavedHistoryLimit } from "./correctionHistory";
+import { getChannelLanguage, loadChannelLanguages } from "./channelLanguages";
+import { clearLiveHighlights, showLiveHighlights, stopLiveHighlighting } from "./liveHighlight";
+import { HttpMethod, readCustomApiConfig } from "./customApi";
+import { CustomApiTest } from "./customApiSettings";
+import { getConversationContext } from "./conversation";
+import { channelContextMenuPatch } from "./languageMenu";
+import { detectLanguage, Language, LANGUAGE_NAMES, setNeutralForm } from "./languages";
+import { SpanKind } from "./markdownMask";
+import { HistorySettings } from "./historySettings";
+import { getNameCandidates, MemberPool } from "./memberPool";
+import { findNameReferences, NameCandidate } from "./nameMatcher";
+import { OverrideSettings, userContextMenuPatch } from "./overrideSettings";
+import { getDraftMentions, getPrefetchTargets, prefetchPronouns, withinBudget } from "./prefetch";
+import { clearMyPronounCache, getCachedPronouns, getMyCacheStats, loadPronounCache } from "./pronounCache";
+import { hasPronounOverride, loadPronounOverrides } from "./pronounOverrides";
+import { loadMyStats, recordCorrection } from "./pronounStats";
+import { buildPronounPattern, getAllPronouns, setCustomPronounSets } from "./pronounRegistry";
+import { openReviewModal, ReviewAction } from "./reviewModal";
+import { channelScopeMenuPatch, guildScopeMenuPatch, SCOPE_RULE_LABELS, userScopeMenuPatch } from "./scopeMenu";
+import { findScopeRule, isIgnoredUser, loadScopeRules, SCOPE_OFF } from "./scopeRules";
+import { ScopeSettings } from "./scopeSettings";
+import { openScoreDebugPanel } from "./scoreDebugPanel";
+import { formatBreakdown, loadScoringWeights } from "./scoring";
+import { ScoringSettings } from "./scoringSettings";
+import { describeSourceHealth } from "./sourceHealth";
+import { StatsSettings } from "./statsSettings";
+import managedStyle from "./style.css?managed";
+import { showUndoNotice } from "./undoNotice";
 
-export default definePlugin({
+// How long I wait after my last keystroke before checking my draft
+const LIVE_CHECK_DELAY = 300;
+
+// Discord's draft type for the message I'm writing in a channel (not a thread or forum post setup)
+const CHANNEL_MESSAGE_DRAFT = 0;
+
+// Where pronouns came from, for /pronouns
+const SOURCE_NAMES: { [source: string]: string; } = {
+    [PronounSource.PRONOUNDB]: "PronounDB",
+    [PronounSource.DISCORD_BIO]: "their Discord profile",
+    [PronounSource.CUSTOM]: "my custom API"
+};
+
+// Someone my message might be about, and why I picked them
+interface UserToCheck {
+    userId: string;
+    reason: string;
+    // Not mentioned or named, just implied (DM recipient, reply target)
+    implicit: boolean;
+    preferred?: boolean;
+}
+
+const plugin = definePlugin({
     name: "RoaringsPronounAutoCorrect",
     description: "I automatically correct pronouns in my messages before sending, or block messages with wrong pronouns.",
     authors: [{ name: "Roaring", id: 0n }],
@@ -49,12 +112,125 @@ export default definePlugin({
             default: "https://api.example.com/pronouns/{userId}"
         },
 
+        customApiMethod: {
+            type: OptionType.SELECT,
+            description: "How I call my custom API",
+            options: [
+                { label: "GET", value: HttpMethod.GET, default: true },
+                { label: "POST", value: HttpMethod.POST }
+            ]
+        },
+
+        customApiHeaders: {
+            type: OptionType.STRING,
+            description: "Headers for my custom API, one per line or separated by ';' (e.g. Authorization: Bearer abc123)",
+            default: ""
+        },
+
+        customApiBody: {
+            type: OptionType.STRING,
+            description: "The body I POST to my custom API, with {userId} or {userIds} (empty sends {\"userId\": ...} or {\"userIds\": [...]})",
+            default: ""
+        },
+
+        customApiJsonPath: {
+            type: OptionType.STRING,
+            description: "Where the pronouns are in my custom API's response (e.g. $.data.profile.pronouns or $.members[id={userId}].pronouns)",
+            default: "$.pronouns"
+        },
+
+        customApiValueMap: {
+            type: OptionType.STRING,
+            description: "My custom API's codes and the pronouns they mean, one per line or separated by ';' (e.g. F=she/her; M=he/him; NB=they/them)",
+            default: ""
+        },
+
+        customApiBatchUrl: {
+            type: OptionType.STRING,
+            description: "My custom API's batch URL, with {userIds} for the comma-separated ids (leave empty to look people up one by one)",
+            default: ""
+        },
+
+        customApiBatchJsonPath: {
+            type: OptionType.STRING,
+            description: "Where one person's pronouns are in the batch response, with {userId} (e.g. $.users.{userId}.pronouns)",
+            default: "$.{userId}.pronouns"
+        },
+
+        customApiTest: {
+            type: OptionType.COMPONENT,
+            description: "Try my custom API on one user",
+            component: CustomApiTest
+        },
+
+        customPronounSets: {
+            type: OptionType.STRING,
+            description: "My own pronoun sets, one per line or separated by ';' as subject/object/possessive/possessive pronoun/reflexive (e.g. xie/hir/hir/hirs/hirself)",
+            default: "",
+            onChange: (value: string) => setCustomPronounSets(value)
+        },
+
         showToasts: {
             type: OptionType.BOOLEAN,
             description: "Show me notifications when I auto-correct pronouns",
             default: true
         },
 
+        language: {
+            type: OptionType.SELECT,
+            description: "The language I write my messages in (right-click a channel to pick one just for it)",
+            options: [
+                { label: "Work it out from each message", value: "auto", default: true },
+                { label: "English", value: Language.ENGLISH },
+                { label: "Spanish", value: Language.SPANISH },
+                { label: "French", value: Language.FRENCH },
+                { label: "German", value: Language.GERMAN },
+                { label: "Portuguese", value: Language.PORTUGUESE }
+            ]
+        },
+
+        spanishNeutral: {
+            type: OptionType.SELECT,
+            description: "The neutral pronoun I use in Spanish for they/them",
+            options: [
+                { label: "elle", value: "elle", default: true },
+                { label: "elli", value: "elli" }
+            ],
+            onChange: (value: string) => setNeutralForm(Language.SPANISH, value)
+        },
+
+        frenchNeutral: {
+            type: OptionType.SELECT,
+            description: "The neutral pronoun I use in French for they/them",
+            options: [
+                { label: "iel", value: "iel", default: true },
+                { label: "ielle", value: "ielle" },
+                { label: "al", value: "al" }
+            ],
+            onChange: (value: string) => setNeutralForm(Language.FRENCH, value)
+        },
+
+        germanNeutral: {
+            type: OptionType.SELECT,
+            description: "The neutral pronoun I use in German for they/them",
+            options: [
+                { label: "they (English loan)", value: "they", default: true },
+                { label: "dey", value: "dey" },
+                { label: "xier", value: "xier" }
+            ],
+            onChange: (value: string) => setNeutralForm(Language.GERMAN, value)
+        },
+
+        portugueseNeutral: {
+            type: OptionType.SELECT,
+            description: "The neutral pronoun I use in Portuguese for they/them",
+            options: [
+                { label: "elu", value: "elu", default: true },
+                { label: "ile", value: "ile" }
+            ],
+            onChange: (value: string) => setNeutralForm(Language.PORTUGUESE, value)
+        },
+
         confidenceThreshold: {
             type: OptionType.SLIDER,
             description: "How confident the detection should be before I auto-correct",
@@ -62,37 +238,304 @@ export default definePlugin({
             markers: [60, 70, 80, 90, 95]
         },
 
+        memberPool: {
+            type: OptionType.SELECT,
+            description: "Whose names I look for when I mention someone without pinging them",
+            options: [
+                { label: "People who can see this channel", value: MemberPool.CHANNEL, default: true },
+                { label: "People who talked here recently", value: MemberPool.RECENT },
+                { label: "Everyone in the server", value: MemberPool.GUILD }
+            ]
+        },
+
+        conversationDepth: {
+            type: OptionType.SLIDER,
+            description: "How many recent messages I read to work out who we're talking about (0 to only go by my message)",
+            default: 10,
+            markers: [0, 5, 10, 20, 30],
+            stickToMarkers: true
+        },
+
+        avoidPronouns: {
+            type: OptionType.SELECT,
+            description: "When someone would rather I didn't use pronouns for them",
+            options: [
+                { label: "Use their name instead", value: SpecialPronounBehavior.USE_NAME, default: true },
+                { label: "Just warn me", value: SpecialPronounBehavior.WARN },
+                { label: "Do nothing", value: SpecialPronounBehavior.IGNORE }
+            ]
+        },
+
+        askForPronouns: {
+            type: OptionType.SELECT,
+            description: "When someone wants to be asked about their pronouns",
+            options: [
+                { label: "Gently remind me I haven't confirmed them", value: SpecialPronounBehavior.WARN, default: true },
+                { label: "Do nothing", value: SpecialPronounBehavior.IGNORE }
+            ]
+        },
+
+        otherPronouns: {
+            type: OptionType.SELECT,
+            description: "When someone uses pronouns PronounDB doesn't list (\"other\")",
+            options: [
+                { label: "Remind me to check their profile", value: SpecialPronounBehavior.WARN, default: true },
+                { label: "Do nothing", value: SpecialPronounBehavior.IGNORE }
+            ]
+        },
+
+        sendBudget: {
+            type: OptionType.SLIDER,
+            description: "The longest I'll hold a message while looking up pronouns (ms), after that it sends unchecked",
+            default: 500,
+            markers: [100, 250, 500, 1000, 2000],
+            stickToMarkers: true
+        },
+
+        notifySkippedChecks: {
+            type: OptionType.BOOLEAN,
+            description: "Tell me when a message went out unchecked because pronouns weren't ready in time",
+            default: true
+        },
+
+        liveHighlighting: {
+            type: OptionType.BOOLEAN,
+            description: "Underline pronouns I'd correct while I'm still typing, with a one-click fix (only uses pronouns I've already looked up)",
+            default: true,
+            onChange: (value: boolean) => { if (!value) clearLiveHighlights(); }
+        },
+
+        checkEdits: {
+            type: OptionType.BOOLEAN,
+            description: "Check my messages when I edit them too",
+            default: true
+        },
+
         skipQuotedText: {
             type: OptionType.BOOLEAN,
-            description: "Don't correct pronouns in quoted text or code blocks",
+            description: "Don't correct pronouns in quoted text, code blocks and the other markdown I pick below",
             default: true
         },
 
+        skippedSpans: {
+            type: OptionType.MULTISELECT,
+            description: "Which markdown I skip when checking pronouns",
+            options: [
+                { label: "Code blocks", value: SpanKind.CODE_BLOCK, default: true },
+                { label: "Inline code", value: SpanKind.INLINE_CODE, default: true },
+                { label: "Quotes (>)", value: SpanKind.QUOTE, default: true },
+                { label: "Block quotes (>>>)", value: SpanKind.BLOCK_QUOTE, default: true },
+                { label: "Spoilers", value: SpanKind.SPOILER },
+                { label: "Links", value: SpanKind.URL, default: true },
+                { label: "Masked links [text](url)", value: SpanKind.MASKED_LINK },
+                { label: "Custom emoji", value: SpanKind.CUSTOM_EMOJI, default: true },
+                { label: "Role mentions", value: SpanKind.ROLE_MENTION, default: true },
+                { label: "Channel mentions", value: SpanKind.CHANNEL_MENTION, default: true },
+                { label: "Timestamps", value: SpanKind.TIMESTAMP, default: true }
+            ]
+        },
+
         debugMode: {
             type: OptionType.BOOLEAN,
             description: "Show me debug info about pronoun detection",
             default: false
+        },
+
+        scoringWeights: {
+            type: OptionType.COMPONENT,
+            description: "How much each detection feature adds to or takes off a pronoun's confidence",
+            component: ScoringSettings
+        },
+
+        savedHistory: {
+            type: OptionType.SLIDER,
+            description: "How many of my latest corrections I save to disk, with the full text of my message (0 keeps them only until I restart)",
+            default: 200,
+            markers: [0, 25, 50, 100, 200],
+            stickToMarkers: true,
+            onChange: (value: number) => setSavedHistoryLimit(value)
+        },
+
+        correctionHistory: {
+            type: OptionType.COMPONENT,
+            description: "Every correction I've made, with what I originally wrote and a way to revert it",
+            component: HistorySettings
+        },
+
+        statistics: {
+            type: OptionType.COMPONENT,
+            description: "How many corrections I've made over time",
+            component: StatsSettings
+        },
+
+        scopeRules: {
+            type: OptionType.COMPONENT,
+            description: "Servers, channels and DMs where my checks are off or use a different mode, and people whose pronouns I never enforce",
+            component: ScopeSettings
+        },
+
+        pronounOverrides: {
+            type: OptionType.COMPONENT,
+            description: "Pronouns I've set myself for people, used before any other source",
+            component: OverrideSettings
+        },
+
+        pronounCache: {
+            type: OptionType.COMPONENT,
+            description: "The pronouns I've looked up, saved between restarts",
+            component: CacheSettings
         }
     },
 
-    // My personal statistics
-    stats: {
-        totalCorrections: 0,
-        autoCorrections: 0,
-        blockedMessages: 0,
-        sessionStarted: Date.now()
-    },
+    managedStyle,
 
     preSendListener: null as any,
+    preEditListener: null as any,
+    liveCheckTimeout: null as ReturnType<typeof setTimeout> | null,
+
+    // Look pronouns up ahead of time, so sending rarely has to wait on the network
+    flux: {
+        CHANNEL_SELECT({ channelId }: { channelId: string | null; }) {
+            clearLiveHighlights();
+            if (channelId) this.prefetchForChannel(channelId);
+        },
+
+        // Messages for a channel I just opened weren't loaded yet on CHANNEL_SELECT
+        LOAD_MESSAGES_SUCCESS({ channelId }: { channelId: string; }) {
+            if (channelId === SelectedChannelStore.getChannelId()) this.prefetchForChannel(channelId);
+        },
+
+        MESSAGE_CREATE({ channelId, message, optimistic }: { channelId: string; message: any; optimistic: boolean; }) {
+            const authorId = message?.author?.id;
+
+            // My corrected message is sent, so my history can find it again to undo it
+            if (!optimistic && authorId && authorId === UserStore.getCurrentUser()?.id) {
+                linkSentMessage(channelId, message.id, message.content);
+            }
+
+            if (channelId !== SelectedChannelStore.getChannelId() || !this.getScope(channelId).enabled) return;
+            if (!authorId || authorId === UserStore.getCurrentUser()?.id) return;
+
+            // Just someone talking, not necessarily someone I'll mention
+            prefetchPronouns([authorId], this.getFetchOptions(channelId, true));
+        },
+
+        // Picking someone from the mention autocomplete puts <@id> in my draft
+        DRAFT_CHANGE({ channelId, draft, draftType }: { channelId: string; draft: string; draftType: number; }) {
+            if (!this.getScope(channelId).enabled) return;
+            prefetchPronouns(getDraftMentions(draft), this.getFetchOptions(channelId));
+
+            if (this.options.liveHighlighting && draftType === CHANNEL_MESSAGE_DRAFT) this.scheduleLiveCheck(channelId, draft);
+        }
+    },
+
+    contextMenus: {
+        "user-context": (children, props) => {
+            userContextMenuPatch(children, props);
+            userScopeMenuPatch(children, props);
+        },
+        "channel-context": (children, props) => {
+            channelContextMenuPatch(children, props);
+            channelScopeMenuPatch(children, props);
+        },
+        "gdm-context": (children, props) => {
+            channelContextMenuPatch(children, props);
+            channelScopeMenuPatch(children, props);
+        },
+        "guild-context": guildScopeMenuPatch
+    },
+
+    // Only ever answered by Clyde, in the channel I typed them in, so nothing is sent
+    commands: [
+        {
+            name: "pronouns",
+            description: "Show the pronouns I'd use for someone and where they came from",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "user",
+                    description: "Who to look up",
+                    type: ApplicationCommandOptionType.USER,
+                    required: true
+                }
+            ],
+            execute: async (args, ctx) => {
+                await plugin.replyWithPronouns(ctx.channel.id, findOption(args, "user", ""));
+            }
+        },
+        {
+            name: "pronouncheck",
+            description: "Check some text for pronouns I'd correct, without sending it",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "text",
+                    description: "What I'd write",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: true
+                }
+            ],
+            execute: async (args, ctx) => {
+                await plugin.replyWithDryRun(ctx.channel.id, findOption(args, "text", ""));
+            }
+        },
+        {
+            name: "pronouncache",
+            description: "Manage my pronoun cache",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "clear",
+                    description: "Forget every pronoun I've looked up, so everyone is looked up again",
+                    type: ApplicationCommandOptionType.SUB_COMMAND,
+                    options: []
+                }
+            ],
+            execute: (args, ctx) => {
+                const { size } = getMyCacheStats();
+                clearMyPronounCache();
+                sendBotMessage(ctx.channel.id, {
+                    content: `Cleared my pronoun cache (${size} ${size === 1 ? "person" : "people"}). My overrides are still there.`
+                });
+            }
+        }
+    ],
 
     start() {
         console.log("[RoaringsPronounAutoCorrect] Starting my pronoun auto-correction...");
+
+        // Load the pronoun sets I've added myself
+        setCustomPronounSets(this.options.customPronounSets);
+
+        // And the neutral pronoun I use in each language
+        setNeutralForm(Language.SPANISH, this.options.spanishNeutral);
+        setNeutralForm(Language.FRENCH, this.options.frenchNeutral);
+        setNeutralForm(Language.GERMAN, this.options.germanNeutral);
+        setNeutralForm(Language.PORTUGUESE, this.options.portugueseNeutral);
+
+        // How much of my correction history I'm happy to keep on disk
+        setSavedHistoryLimit(this.options.savedHistory);
+
+        // Pick up the pronouns I looked up last time, the ones I set myself, my channel languages,
+        // my scope rules, my stats, my correction history and my scoring weights
+        loadPronounCache();
+        loadPronounOverrides();
+        loadChannelLanguages();
+        loadScopeRules();
+        loadMyStats();
+        loadCorrectionHistory();
+        loadScoringWeights();
         
         // Set up my message interceptor
         this.preSendListener = addPreSendListener(async (channelId, messageObj, extra) => {
             return await this.interceptMyMessage(channelId, messageObj, extra);
         });
 
+        // And my edits, which the setting checks each time so I can toggle it without restarting
+        this.preEditListener = addPreEditListener(async (channelId, messageId, messageObj) => {
+            return await this.interceptMyEdit(channelId, messageId, messageObj);
+        });
+
         if (this.options.showToasts) {
             showToast("Roaring's Pronoun Auto-Correction is now active! 💙", Toasts.Type.SUCCESS);
         }
@@ -106,14 +549,38 @@ export default definePlugin({
             this.preSendListener = null;
         }
 
+        if (this.preEditListener) {
+            removePreEditListener(this.preEditListener);
+            this.preEditListener = null;
+        }
+
+        if (this.liveCheckTimeout) clearTimeout(this.liveCheckTimeout);
+        stopLiveHighlighting();
+
         if (this.options.showToasts) {
             showToast("Roaring's Pronoun Auto-Correction stopped", Toasts.Type.MESSAGE);
         }
     },
 
     async interceptMyMessage(channelId: string, messageObj: any, extra: any) {
-        // Only process if I have the feature enabled
-        if (!this.options.enabled) return;
+        return await this.checkMyMessage(channelId, messageObj, extra?.replyOptions?.messageReference?.message_id);
+    },
+
+    async interceptMyEdit(channelId: string, messageId: string, messageObj: any) {
+        // Reverting a correction puts back exactly what I wrote, so it's not mine to check again
+        if (consumeRevertingMessage(messageId)) return;
+        if (!this.options.checkEdits) return;
+
+        // An edit keeps the context of the message I sent, like who I was replying to
+        const original = MessageStore.getMessage(channelId, messageId);
+        return await this.checkMyMessage(channelId, messageObj, original?.messageReference?.message_id, messageId);
+    },
+
+    // `editingMessageId` is the message I'm editing, when it's an edit rather than a new message
+    async checkMyMessage(channelId: string, messageObj: any, replyToMessageId?: string, editingMessageId?: string) {
+        // Only process if I have the feature enabled here, before anything gets looked up
+        const scope = this.getScope(channelId);
+        if (!scope.enabled) return;
 
         const content = messageObj.content;
         if (!content || typeof content !== "string") return;
@@ -124,17 +591,31 @@ export default definePlugin({
                 console.log("[RoaringsPronounAutoCorrect] Checking my message:", content);
             }
 
-            // Get users to check (mentions OR DM recipient)
-            const usersToCheck = await this.getUsersToCheck(channelId, content);
+            const language = this.getMessageLanguage(channelId, content);
+
+            // People I might be talking about by name, not just by mention
+            const nameCandidates = getNameCandidates(channelId, this.options.memberPool);
+
+            // Get users to check (mentions, names, reply target OR DM recipients)
+            const usersToCheck = await this.getUsersToCheck(channelId, content, nameCandidates, language, replyToMessageId);
             if (usersToCheck.length === 0) return; // Nobody to check
 
             // Check each user for pronoun mismatches
-            const corrections = await this.checkForPronounMismatches(content, usersToCheck);
+            const { corrections, notices, scored } = await this.checkForPronounMismatches(content, usersToCheck, channelId, nameCandidates, language);
+
+            // Show me why each pronoun was or wasn't flagged, the panel only when something was
+            // and not on top of the review modal
+            if (this.options.debugMode && scored.length > 0) {
+                this.showScoreBreakdown(scored, corrections.length > 0 && scope.mode !== CorrectionMode.ASK_FIRST);
+            }
+
+            // People I can't correct for still get a heads-up, without holding my message
+            if (notices.length > 0) this.showPronounNotices(notices);
             
             if (corrections.length === 0) return; // No issues found
 
             // Handle the corrections based on my settings
-            return await this.handleCorrections(messageObj, corrections, channelId);
+            return await this.handleCorrections(messageObj, corrections, channelId, scope.mode, editingMessageId);
 
         } catch (error) {
             console.error("[RoaringsPronounAutoCorrect] Error checking my message:", error);
@@ -145,126 +626,451 @@ export default definePlugin({
         }
     },
 
-    async getUsersToCheck(channelId: string, content: string): Promise<string[]> {
+    async getUsersToCheck(
+        channelId: string,
+        content: string,
+        nameCandidates: NameCandidate[],
+        language: Language,
+        replyToMessageId?: string,
+        quiet = false
+    ): Promise<UserToCheck[]> {
         const channel = ChannelStore.getChannel(channelId);
         if (!channel) return [];
 
-        // Check if this is a DM
-        if (channel.type === 1) { // DM channel type
-            // In DMs, if I use pronouns, I'm probably talking about the other person
-            const hasPronouns = this.containsPronouns(content);
-            if (hasPronouns) {
-                // Get the other person in the DM (not me)
-                const myId = UserStore.getCurrentUser()?.id;
-                const recipientId = channel.recipients?.find((id: string) => id !== myId);
-                
-                if (recipientId) {
-                    if (this.options.debugMode) {
-                        console.log("[RoaringsPronounAutoCorrect] DM detected - checking pronouns for recipient:", recipientId);
-                    }
-                    return [recipientId];
-                }
+        const myId = UserStore.getCurrentUser()?.id;
+        const users = new Map<string, UserToCheck>();
+
+        // First reason wins, so someone I mention directly isn't treated as implicit
+        const addUser = (userId: string | undefined, reason: string, implicit: boolean, preferred = false) => {
+            if (!userId || userId === myId || users.has(userId)) return;
+            users.set(userId, { userId, reason, implicit, preferred });
+        };
+
+        // Look for @mentions like before, plus anyone I called by name
+        for (const userId of extractMentions(content)) {
+            addUser(userId, "mentioned in my message", false);
+        }
+        for (const reference of findNameReferences(content, nameCandidates, language)) {
+            addUser(reference.userId, `named as "${reference.name}"`, false);
+        }
+
+        // When I reply to someone, pronouns without a mention are most likely about them
+        if (replyToMessageId) {
+            const repliedTo = MessageStore.getMessage(channelId, replyToMessageId);
+            addUser(repliedTo?.author?.id, "author of the message I'm replying to", true, true);
+        }
+
+        const hasPronouns = this.containsPronouns(content, language);
+
+        // Who the last few messages were about. If that's someone who isn't on Discord,
+        // like "my brother", my pronouns are probably about them and not anyone here.
+        const conversation = hasPronouns && this.options.conversationDepth > 0
+            ? getConversationContext(channelId, nameCandidates, this.options.conversationDepth, language)
+            : undefined;
+
+        if (conversation?.thirdPartyTopic) {
+            if (this.options.debugMode && !quiet) {
+                console.log("[RoaringsPronounAutoCorrect] Recent messages are about someone who isn't here, not guessing who my pronouns are about");
+            }
+        } else if (conversation) {
+            // Whoever the latest messages were about is my best guess, unless I'm replying to someone.
+            // Everyone else who came up lately still counts, so a pronoun that fits them isn't "corrected".
+            for (const { userId } of conversation.discussed) {
+                const preferred = !replyToMessageId && userId === conversation.focus;
+                addUser(userId, "being talked about in recent messages", true, preferred);
+            }
+        }
+
+        // In DMs and group DMs, if I use pronouns, I'm probably talking about the other people here
+        const isDM = channel.type === 1; // DM channel type
+        const isGroupDM = channel.type === 3; // Group DM channel type
+        if ((isDM || isGroupDM) && hasPronouns && !conversation?.thirdPartyTopic) {
+            for (const recipientId of channel.recipients ?? []) {
+                addUser(recipientId, isDM ? "DM recipient" : "group DM recipient", true);
             }
-            return [];
         }
 
-        // For non-DMs, look for @mentions like before
-        const mentions = extractMentions(content);
-        return mentions;
+        if (this.options.debugMode && !quiet && users.size > 0) {
+            console.log("[RoaringsPronounAutoCorrect] Checking pronouns for:", [...users.values()].map(u => {
+                const user = UserStore.getUser(u.userId);
+                return `${user?.username ?? u.userId} - ${u.reason}`;
+            }));
+        }
+
+        return [...users.values()];
     },
 
-    containsPronouns(content: string): boolean {
+    containsPronouns(content: string, language: Language = Language.ENGLISH): boolean {
         // Check if the message contains any pronouns that could refer to someone
-        const pronounPattern = /\b(he|she|they|him|her|them|his|hers|their|himself|herself|themselves|themself)\b/i;
-        return pronounPattern.test(content);
+        const pronounPattern = buildPronounPattern(getAllPronouns(language), "i", language !== Language.ENGLISH);
+        return !!pronounPattern?.test(content);
     },
 
-    async checkForPronounMismatches(content: string, usersToCheck: string[]) {
-        const corrections = [];
+    // The channel's own language if I picked one, then my setting, then a guess from the message
+    getMessageLanguage(channelId: string, content: string, quiet = false): Language {
+        const language = getChannelLanguage(channelId)
+            ?? (this.options.language === "auto" ? detectLanguage(content) : this.options.language);
 
-        for (const userId of usersToCheck) {
-            try {
-                // Get the user's correct pronouns
-                const userPronouns = await fetchPronouns(userId, {
-                    sources: this.options.pronounSources,
-                    customApiUrl: this.options.customApiUrl
-                });
+        if (this.options.debugMode && !quiet) {
+            console.log("[RoaringsPronounAutoCorrect] Checking my message as:", language);
+        }
 
-                if (userPronouns === "unspecified" || userPronouns === "any pronouns") {
-                    continue; // Skip if no specific pronouns
-                }
+        return language;
+    },
 
-                // Detect mismatches in my message
-                const mismatches = detectPronounMismatches(content, userId, userPronouns, {
-                    skipQuotedText: this.options.skipQuotedText,
-                    confidenceThreshold: this.options.confidenceThreshold
-                });
+    // Pronouns for toasts and logs, marked when they're my own override rather than from a source
+    describePronouns(userId: string, pronouns: string): string {
+        return hasPronounOverride(userId) ? `${pronouns} (my override)` : pronouns;
+    },
 
-                if (mismatches.length > 0) {
-                    corrections.push({
-                        userId,
-                        userPronouns,
-                        mismatches,
-                        confidence: Math.max(...mismatches.map(m => m.confidence))
-                    });
-                }
+    // The name people see for them here, which is what I'd write instead of a pronoun
+    getDisplayName(userId: string, guildId?: string): string | undefined {
+        const user = UserStore.getUser(userId);
+        const nick = guildId ? GuildMemberStore.getNick(guildId, userId) : null;
+        return nick || user?.globalName || user?.username || undefined;
+    },
 
-            } catch (error) {
-                console.warn(`[RoaringsPronounAutoCorrect] Failed to check pronouns for user ${userId}:`, error);
-            }
+    // Whether I check messages in this channel and how, from my most specific scope rule or my settings
+    getScope(channelId: string): { enabled: boolean; mode: CorrectionMode; } {
+        const match = findScopeRule(channelId);
+
+        if (!match) return { enabled: this.options.enabled, mode: this.options.correctionMode };
+        if (match.rule === SCOPE_OFF) return { enabled: false, mode: this.options.correctionMode };
+        return { enabled: true, mode: match.rule };
+    },
+
+    // `speculative` for people I might not talk about at all, see FetchOptions
+    getFetchOptions(channelId: string, speculative = false): FetchOptions {
+        return {
+            sources: this.options.pronounSources,
+            customApi: readCustomApiConfig(this.options),
+            guildId: ChannelStore.getChannel(channelId)?.guild_id,
+            speculative
+        };
+    },
+
+    prefetchForChannel(channelId: string) {
+        if (!this.getScope(channelId).enabled) return;
+
+        const { recipients, recentAuthors } = getPrefetchTargets(channelId);
+        if (this.options.debugMode && recipients.length + recentAuthors.length > 0) {
+            console.log("[RoaringsPronounAutoCorrect] Prefetching pronouns for:", [...recipients, ...recentAuthors].map(id => UserStore.getUser(id)?.username ?? id));
+        }
+
+        prefetchPronouns(recipients, this.getFetchOptions(channelId));
+        prefetchPronouns(recentAuthors, this.getFetchOptions(channelId, true));
+    },
+
+    async checkForPronounMismatches(
+        content: string,
+        usersToCheck: UserToCheck[],
+        channelId: string,
+        nameCandidates: NameCandidate[],
+        language: Language
+    ): Promise<PronounIssues> {
+        // Get everyone's correct pronouns in one go, but only wait as long as my budget allows.
+        // People on my ignore list aren't looked up at all.
+        const toLookUp = usersToCheck.filter(u => !isIgnoredUser(u.userId)).map(u => u.userId);
+        const pronounsByUser = await withinBudget(
+            fetchPronounsForUsers(toLookUp, this.getFetchOptions(channelId)),
+            this.options.sendBudget
+        );
+
+        if (!pronounsByUser) {
+            this.notifySkippedCheck(usersToCheck);
+            return { corrections: [], notices: [], scored: [] };
+        }
+
+        if (this.options.debugMode) {
+            console.log("[RoaringsPronounAutoCorrect] Pronouns I found:", usersToCheck.map(({ userId }) =>
+                `${UserStore.getUser(userId)?.username ?? userId}: ${this.describePronouns(userId, pronounsByUser.get(userId) ?? "unspecified")}`
+            ));
+            console.log("[RoaringsPronounAutoCorrect] How my pronoun sources are doing:", describeSourceHealth());
         }
 
-        return corrections;
+        return this.detectIssues(content, usersToCheck, channelId, nameCandidates, language, pronounsByUser);
     },
 
-    async handleCorrections(messageObj: any, corrections: any[], channelId: string) {
-        const mode = this.options.correctionMode;
+    detectIssues(
+        content: string,
+        usersToCheck: UserToCheck[],
+        channelId: string,
+        nameCandidates: NameCandidate[],
+        language: Language,
+        pronounsByUser: Map<string, string>
+    ): PronounIssues {
+        const guildId = ChannelStore.getChannel(channelId)?.guild_id;
+
+        // Everyone stays a referent, even without pronouns, so their pronouns aren't pinned on someone else
+        const referents: Referent[] = usersToCheck.map(({ userId, implicit, preferred }) => ({
+            userId,
+            // Anything goes for people on my ignore list, though they still keep their own pronouns off others
+            pronouns: isIgnoredUser(userId) ? "any pronouns" : pronounsByUser.get(userId) ?? "unspecified",
+            implicit,
+            preferred,
+            name: this.getDisplayName(userId, guildId)
+        }));
+
+        // Detect mismatches in my message, one pass for everyone
+        return detectPronounIssues(content, referents, {
+            skippedSpans: this.options.skipQuotedText ? this.options.skippedSpans : [],
+            confidenceThreshold: this.options.confidenceThreshold,
+            nameCandidates,
+            avoidPronouns: this.options.avoidPronouns,
+            askForPronouns: this.options.askForPronouns,
+            otherPronouns: this.options.otherPronouns,
+            language
+        });
+    },
+
+    // Check my draft once I pause typing
+    scheduleLiveCheck(channelId: string, draft: string) {
+        if (this.liveCheckTimeout) clearTimeout(this.liveCheckTimeout);
+
+        this.liveCheckTimeout = setTimeout(() => {
+            this.liveCheckTimeout = null;
+            this.checkMyDraft(channelId, draft).catch(error =>
+                console.error("[RoaringsPronounAutoCorrect] Error checking my draft:", error)
+            );
+        }, LIVE_CHECK_DELAY);
+    },
+
+    // Like the send-time check, but only with pronouns I already know, so typing never hits the network
+    async checkMyDraft(channelId: string, draft: string) {
+        if (channelId !== SelectedChannelStore.getChannelId() || !draft?.trim() || !this.getScope(channelId).enabled) {
+            clearLiveHighlights();
+            return;
+        }
+
+        const language = this.getMessageLanguage(channelId, draft, true);
+        const nameCandidates = getNameCandidates(channelId, this.options.memberPool);
+        const usersToCheck = await this.getUsersToCheck(channelId, draft, nameCandidates, language, undefined, true);
+
+        const pronounsByUser = peekPronounsForUsers(usersToCheck.map(u => u.userId));
+        const { corrections } = this.detectIssues(draft, usersToCheck, channelId, nameCandidates, language, pronounsByUser);
+
+        showLiveHighlights(draft, corrections, correction => {
+            const user = UserStore.getUser(correction.userId);
+            const userName = user?.displayName || user?.username || "Unknown User";
+            return `${userName} (${this.describePronouns(correction.userId, correction.userPronouns)})`;
+        });
+    },
+
+    // The lookup keeps going in the background, so next time their pronouns are cached
+    notifySkippedCheck(usersToCheck: UserToCheck[]) {
+        if (this.options.debugMode) {
+            console.log(`[RoaringsPronounAutoCorrect] Sent my message unchecked, pronouns weren't ready within ${this.options.sendBudget}ms for:`,
+                usersToCheck.map(u => UserStore.getUser(u.userId)?.username ?? u.userId));
+        }
 
+        if (this.options.notifySkippedChecks) {
+            showToast("Sent without a pronoun check, I'm still looking up pronouns", Toasts.Type.MESSAGE);
+        }
+    },
+
+    showScoreBreakdown(scored: ScoredPronoun[], openPanel: boolean) {
+        console.log("[RoaringsPronounAutoCorrect] Confidence breakdown:", scored.map(s =>
+            `"${s.word}" → ${UserStore.getUser(s.userId)?.username ?? s.userId}: ${formatBreakdown(s.breakdown)}${s.flagged ? "" : " (not flagged)"}`
+        ));
+
+        if (openPanel) openScoreDebugPanel(scored, this.options.confidenceThreshold);
+    },
+
+    describePronounNotice(notice: PronounNotice): string {
+        const user = UserStore.getUser(notice.userId);
+        const userName = user?.displayName || user?.username || "Unknown User";
+        const used = notice.words.map(w => `"${w}"`).join(", ");
+
+        switch (notice.userPronouns) {
+            case "ask for pronouns":
+                return `${userName} would like to be asked about pronouns, and I haven't confirmed them yet (I used ${used})`;
+            case "avoid pronouns":
+                return `${userName} prefers no pronouns, maybe use the name instead of ${used}`;
+            default:
+                return `${userName} uses pronouns I don't know, worth checking the profile before using ${used}`;
+        }
+    },
+
+    showPronounNotices(notices: PronounNotice[]) {
+        const lines = notices.map(n => this.describePronounNotice(n));
+
+        showToast(lines.join("\n"), Toasts.Type.MESSAGE, { duration: 6000 });
+
+        if (this.options.debugMode) {
+            console.log("[RoaringsPronounAutoCorrect] Pronoun notices:", notices);
+        }
+    },
+
+    // /pronouns @user. A full lookup, so it can take a moment for someone I haven't looked up yet.
+    async replyWithPronouns(channelId: string, userId: string) {
+        const userName = this.getDisplayName(userId, ChannelStore.getChannel(channelId)?.guild_id) ?? userId;
+        const pronouns = await fetchPronouns(userId, this.getFetchOptions(channelId));
+
+        const cached = getCachedPronouns(userId);
+        const source = hasPronounOverride(userId)
+            ? "my override"
+            : cached?.source
+                ? SOURCE_NAMES[cached.source] ?? cached.source
+                : "none of my sources had any";
+
+        const lines = [`**${userName}**: ${pronouns}`, `From: ${source}`];
+        if (isIgnoredUser(userId)) lines.push("They're on my ignore list, so I never enforce these");
+
+        sendBotMessage(channelId, { content: lines.join("\n") });
+    },
+
+    // /pronouncheck <text>. The same check as sending it here, minus the send budget since nothing is waiting.
+    async replyWithDryRun(channelId: string, text: string) {
+        const scope = this.getScope(channelId);
+        const language = this.getMessageLanguage(channelId, text, true);
+        const nameCandidates = getNameCandidates(channelId, this.options.memberPool);
+        const usersToCheck = await this.getUsersToCheck(channelId, text, nameCandidates, language, undefined, true);
+
+        const lines: string[] = [];
+        if (!scope.enabled) lines.push("Checks are off here, but this is what I'd do if they weren't.");
+
+        if (usersToCheck.length === 0) {
+            lines.push("Nobody to check: no mentions, names or people I'd assume you mean.");
+            sendBotMessage(channelId, { content: lines.join("\n") });
+            return;
+        }
+
+        const toLookUp = usersToCheck.filter(u => !isIgnoredUser(u.userId)).map(u => u.userId);
+        const pronounsByUser = await fetchPronounsForUsers(toLookUp, this.getFetchOptions(channelId));
+        const { corrections, notices, scored } = this.detectIssues(text, usersToCheck, channelId, nameCandidates, language, pronounsByUser);
+
+        const guildId = ChannelStore.getChannel(channelId)?.guild_id;
+        const nameOf = (userId: string) => this.getDisplayName(userId, guildId) ?? userId;
+
+        lines.push(`Checked as ${LANGUAGE_NAMES[language] ?? language} for:`);
+        for (const { userId, reason } of usersToCheck) {
+            const pronouns = isIgnoredUser(userId) ? "on my ignore list" : this.describePronouns(userId, pronounsByUser.get(userId) ?? "unspecified");
+            lines.push(`- ${nameOf(userId)}: ${pronouns}, ${reason}`);
+        }
+
+        if (corrections.length === 0) {
+            lines.push("Nothing I'd correct.");
+        } else {
+            const { correctedText, grammarEdits } = applyCorrections(text, corrections);
+
+            lines.push(`What I'd correct (mode here: ${SCOPE_RULE_LABELS[scope.mode]}):`);
+            for (const correction of corrections) {
+                for (const m of correction.mismatches) {
+                    lines.push(`- "${m.wrongPronoun}" → "${m.correctPronoun}" for ${nameOf(correction.userId)}, ${m.confidence}% sure`);
+                }
+            }
+            for (const edit of grammarEdits) {
+                lines.push(`- "${edit.original}" → "${edit.corrected}" to keep the grammar right`);
+            }
+
+            lines.push("Corrected:", ...correctedText.split("\n").map(line => `> ${line}`));
+        }
+
+        lines.push(...notices.map(n => this.describePronounNotice(n)));
+
+        sendBotMessage(channelId, { content: lines.join("\n") });
+
+        // Where I look into a score on purpose, rather than every time I send
+        if (this.options.debugMode && scored.length > 0) openScoreDebugPanel(scored, this.options.confidenceThreshold);
+    },
+
+    async handleCorrections(messageObj: any, corrections: PronounCorrection[], channelId: string, mode: CorrectionMode, editingMessageId?: string) {
         switch (mode) {
             case CorrectionMode.AUTO_CORRECT:
-                return await this.autoCorrectMessage(messageObj, corrections);
+                return await this.autoCorrectMessage(messageObj, corrections, channelId, editingMessageId);
 
             case CorrectionMode.BLOCK_AND_WARN:
                 return await this.blockMessageAndWarn(messageObj, corrections, channelId);
 
             case CorrectionMode.ASK_FIRST:
-                return await this.askBeforeCorrection(messageObj, corrections);
+                return await this.askBeforeCorrection(messageObj, corrections, channelId, editingMessageId);
 
             default:
                 return; // Let message send normally
         }
     },
 
-    async autoCorrectMessage(messageObj: any, corrections: any[]) {
-        let correctedContent = messageObj.content;
-        const correctedWords = [];
+    // Count a correction towards my stats, by mode, pronoun pair and whether it was a DM
+    recordMyCorrection(mode: CorrectionMode, channelId: string, pairs: Array<[string, string]>) {
+        const channel = ChannelStore.getChannel(channelId);
+        recordCorrection({
+            mode,
+            channelKind: channel?.guild_id ? "guild" : "dm",
+            pairs
+        });
+    },
+
+    // Keep what I wrote, so I can revert a correction that was wrong
+    recordInHistory(mode: CorrectionMode, channelId: string, original: string, result: CorrectionResult, editingMessageId?: string) {
+        return addCorrectionToHistory({
+            channelId,
+            // An edit is already sent, so there's no message to wait for
+            messageId: editingMessageId,
+            mode,
+            original,
+            corrected: result.correctedText,
+            correctedWords: result.correctedWords
+        });
+    },
+
+    async autoCorrectMessage(messageObj: any, corrections: PronounCorrection[], channelId: string, editingMessageId?: string) {
+        const originalContent = messageObj.content;
 
         // Apply all corrections to my message
-        for (const correction of corrections) {
-            const result = correctPronouns(correctedContent, correction);
-            correctedContent = result.correctedText;
-            correctedWords.push(...result.correctedWords);
-        }
+        const result = applyCorrections(originalContent, corrections);
+        const { correctedText: correctedContent, correctedWords, grammarEdits } = result;
 
         // Update my message content
         messageObj.content = correctedContent;
 
-        // Track my statistics
-        this.stats.totalCorrections++;
-        this.stats.autoCorrections++;
+        // Track my statistics, and what I wrote so I can undo it
+        const historyEntry = correctedWords.length > 0
+            ? this.recordInHistory(CorrectionMode.AUTO_CORRECT, channelId, originalContent, result, editingMessageId)
+            : undefined;
+        if (correctedWords.length > 0) {
+            this.recordMyCorrection(CorrectionMode.AUTO_CORRECT, channelId, correctedWords.map(w => [w.original, w.corrected]));
+        }
 
         // Show me a notification if enabled
         if (this.options.showToasts && correctedWords.length > 0) {
-            const correctionList = correctedWords.map(w => `"${w.original}" → "${w.corrected}"`).join(", ");
-            showToast(`Auto-corrected: ${correctionList}`, Toasts.Type.MESSAGE);
+            const correctionList = [...correctedWords, ...grammarEdits]
+                .sort((a, b) => a.position - b.position)
+                .map(w => `"${w.original}" → "${w.corrected}"`)
+                .join(", ");
+
+            // Let me know when someone goes by more than one set, so the choice isn't a surprise
+            const mixedSetNotes = corrections
+                .filter(c => c.pronounSets?.length > 1)
+                .map(c => {
+                    const user = UserStore.getUser(c.userId);
+                    const userName = user?.displayName || user?.username || "Unknown User";
+                    return `${userName} uses several sets (${this.describePronouns(c.userId, c.userPronouns)}), I used ${c.pronounSets[0].name}`;
+                });
+
+            // And when the pronouns came from my own override rather than a source
+            const overrideNotes = corrections
+                .filter(c => c.pronounSets?.length <= 1 && hasPronounOverride(c.userId))
+                .map(c => {
+                    const user = UserStore.getUser(c.userId);
+                    const userName = user?.displayName || user?.username || "Unknown User";
+                    return `${userName}: ${this.describePronouns(c.userId, c.userPronouns)}`;
+                });
+
+            const notes = [...mixedSetNotes, ...overrideNotes];
+            const message = notes.length > 0
+                ? `Auto-corrected: ${correctionList}\n${notes.join("\n")}`
+                : `Auto-corrected: ${correctionList}`;
+
+            showUndoNotice(message, historyEntry!.id);
         }
 
         // Debug info
         if (this.options.debugMode) {
             console.log("[RoaringsPronounAutoCorrect] Auto-corrected my message:", {
-                original: messageObj.content,
+                original: originalContent,
                 corrected: correctedContent,
-                corrections: correctedWords
+                corrections: correctedWords,
+                grammarEdits
             });
         }
 
@@ -272,13 +1078,13 @@ export default definePlugin({
         return;
     },
 
-    async blockMessageAndWarn(messageObj: any, corrections: any[], channelId: string) {
+    async blockMessageAndWarn(messageObj: any, corrections: PronounCorrection[], channelId: string) {
         // Prevent my message from sending
         const correctionSummary = corrections.map(c => {
             const user = UserStore.getUser(c.userId);
             const userName = user?.displayName || user?.username || "Unknown User";
             const wrongPronouns = c.mismatches.map(m => m.wrongPronoun).join(", ");
-            return `${userName} uses ${c.userPronouns} (you used: ${wrongPronouns})`;
+            return `${userName} uses ${this.describePronouns(c.userId, c.userPronouns)} (you used: ${wrongPronouns})`;
         }).join("\n");
 
         showToast(
@@ -288,8 +1094,11 @@ export default definePlugin({
         );
 
         // Track statistics
-        this.stats.totalCorrections++;
-        this.stats.blockedMessages++;
+        this.recordMyCorrection(
+            CorrectionMode.BLOCK_AND_WARN,
+            channelId,
+            corrections.flatMap(c => c.mismatches.map(m => [m.wrongPronoun, m.correctPronoun] as [string, string]))
+        );
 
         // Debug info
         if (this.options.debugMode) {
@@ -303,23 +1112,36 @@ export default definePlugin({
         return false;
     },
 
-    async askBeforeCorrection(messageObj: any, corrections: any[]) {
-        // For now, we'll auto-correct but show a detailed notification
-        // In a full implementation, this would show a modal dialog
-        
-        const correctionSummary = corrections.map(c => {
-            const user = UserStore.getUser(c.userId);
-            const userName = user?.displayName || user?.username || "Unknown User";
-            return `${userName}: ${c.userPronouns}`;
-        }).join(", ");
+    async askBeforeCorrection(messageObj: any, corrections: PronounCorrection[], channelId: string, editingMessageId?: string) {
+        // Hold my message until I've reviewed every correction
+        const decision = await openReviewModal(messageObj.content, corrections);
 
-        showToast(
-            `Pronoun corrections available for: ${correctionSummary}\nAuto-applying corrections...`, 
-            Toasts.Type.MESSAGE,
-            { duration: 5000 }
-        );
+        if (this.options.debugMode) {
+            console.log("[RoaringsPronounAutoCorrect] My review decision:", decision);
+        }
+
+        switch (decision.action) {
+            case ReviewAction.SEND_CORRECTED: {
+                const { correctedText, correctedWords } = decision.result!;
+                const originalContent = messageObj.content;
+                messageObj.content = correctedText;
+
+                if (correctedWords.length > 0) {
+                    this.recordMyCorrection(CorrectionMode.ASK_FIRST, channelId, correctedWords.map(w => [w.original, w.corrected]));
+                    this.recordInHistory(CorrectionMode.ASK_FIRST, channelId, originalContent, decision.result!, editingMessageId);
+                }
+                return; // Let the corrected message send
+            }
 
-        // Apply corrections after showing the warning
-        return await this.autoCorrectMessage(messageObj, corrections);
+            case ReviewAction.SEND_ORIGINAL:
+                return; // Let my original message send untouched
+
+            case ReviewAction.CANCEL:
+            default:
+                // Return false so I can keep editing my message
+                return false;
+        }
     }
-});
\ No newline at end of file
+});
+
+export default plugin;
@@ -0,0 +1,33 @@
+import { NavContextMenuPatchCallback } from "@api/ContextMenu";
+import { Menu, React } from "@webpack/common";
+import { getChannelLanguage, setChannelLanguage } from "./channelLanguages";
+import { Language, LANGUAGE_NAMES } from "./languages";
+
+// "Pronoun language" when I right-click a channel or group DM, to pin the language I write in there
+export const channelContextMenuPatch: NavContextMenuPatchCallback = (children, { channel }) => {
+    if (!channel) return;
+
+    const current = getChannelLanguage(channel.id);
+
+    children.push(
+        <Menu.MenuItem id="roarings-pronoun-language" label="Pronoun language">
+            <Menu.MenuRadioItem
+                id="roarings-pronoun-language-default"
+                group="roarings-pronoun-language"
+                label="Use my setting"
+                checked={!current}
+                action={() => setChannelLanguage(channel.id, undefined)}
+            />
+            {Object.values(Language).map(language => (
+                <Menu.MenuRadioItem
+                    key={language}
+                    id={`roarings-pronoun-language-${language}`}
+                    group="roarings-pronoun-language"
+                    label={LANGUAGE_NAMES[language]}
+                    checked={current === language}
+                    action={() => setChannelLanguage(channel.id, language)}
+                />
+            ))}
+        </Menu.MenuItem>
+    );
+};
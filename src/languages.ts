@@ -0,0 +1,283 @@
+import type { PronounForm, PronounSet } from "./pronounRegistry";
+
+// Pronoun tables for the other languages my friends write in. PronounDB only gives me
+// English sets, so he/him, she/her and they/them map onto each language's equivalents.
+// Object clitics like Spanish "lo/la" or French "le/la" double as articles, and possessives
+// like "su" or "son/sa" don't show whose they are, so I leave those alone rather than guess.
+
+export enum Language {
+    ENGLISH = "en",
+    SPANISH = "es",
+    FRENCH = "fr",
+    GERMAN = "de",
+    PORTUGUESE = "pt"
+}
+
+export const LANGUAGE_NAMES: { [language: string]: string; } = {
+    [Language.ENGLISH]: "English",
+    [Language.SPANISH]: "Spanish",
+    [Language.FRENCH]: "French",
+    [Language.GERMAN]: "German",
+    [Language.PORTUGUESE]: "Portuguese"
+};
+
+interface LanguageTable {
+    masculine: PronounSet;
+    feminine: PronounSet;
+    // Every neutral form people use, the one I've picked in settings comes first
+    neutral: PronounSet[];
+    // Words that tell me a message is in this language
+    stopWords: string[];
+    // What I write instead of a possessive pronoun for someone who avoids pronouns
+    possessiveName(name: string): string;
+    // A pronoun that isn't about a person here, like French "il y a" or German formal "Sie"
+    isNotAboutAPerson?(text: string, position: number, word: string): boolean;
+    // Which form an ambiguous word is, when the table alone can't tell
+    resolveForm?(text: string, position: number, word: string, forms: PronounForm[]): PronounForm | undefined;
+}
+
+function set(name: string, forms: Partial<Omit<PronounSet, "name">>): PronounSet {
+    return {
+        name,
+        subject: [],
+        object: [],
+        possessiveDeterminer: [],
+        possessivePronoun: [],
+        reflexive: [],
+        ...forms
+    };
+}
+
+function wordsAfter(text: string, position: number, word: string, count: number): string[] {
+    return text.slice(position + word.length).trim().split(/[^\p{L}'’]+/u).filter(Boolean).slice(0, count);
+}
+
+function isSentenceStart(text: string, position: number): boolean {
+    return /(^|[.!?\n]\s*)$/.test(text.slice(0, position));
+}
+
+// "il y a", "il faut", "il pleut" and friends have nobody behind the "il"
+const FRENCH_IMPERSONAL = new Set(["y", "faut", "pleut", "neige", "semble", "paraît", "parait", "reste", "vaut", "s'agit", "s’agit", "suffit"]);
+
+// "sie sind" is "they are", not "she is"
+const GERMAN_PLURAL_VERBS = new Set(["sind", "waren", "haben", "hatten", "werden", "wurden", "können", "konnten", "müssen", "sollen", "wollen", "gehen", "kommen", "machen"]);
+
+const GERMAN_POSSESSIVE_FORMS = ["", "e", "en", "em", "er", "es"];
+
+// "it rains", "it seems", "it depends" have nobody behind the "it"
+const ENGLISH_DUMMY_IT_VERBS = new Set([
+    "rains", "rained", "snows", "snowed", "seems", "seemed", "appears", "appeared", "depends", "depended",
+    "turns", "turned", "matters", "mattered", "happens", "happened", "sucks", "works", "worked"
+]);
+
+// Weather, time and opinions after "it is" or "it's": "it's raining", "it's late", "it's fine"
+const ENGLISH_DUMMY_IT_COMPLEMENTS = new Set([
+    "raining", "snowing", "cold", "hot", "warm", "sunny", "cloudy", "windy", "dark", "late", "early", "time",
+    "noon", "midnight", "morning", "night", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday",
+    "sunday", "important", "possible", "impossible", "necessary", "fine", "ok", "okay", "true", "weird",
+    "funny", "hard", "easy", "obvious", "clear", "worth", "like", "going", "gonna", "not", "about", "just", "been"
+]);
+
+// After these a pronoun starts a new clause, so "it" is a subject rather than an object
+const ENGLISH_CLAUSE_STARTERS = new Set([
+    "and", "but", "or", "so", "because", "since", "if", "when", "while", "that", "though", "although",
+    "unless", "until", "once", "whether", "think", "guess", "hope", "said", "says", "know", "knows"
+]);
+
+function previousWordOf(text: string, position: number): string | undefined {
+    return text.slice(0, position).trim().split(/[^\p{L}'’]+/u).pop()?.toLowerCase() || undefined;
+}
+
+// Weather, time and "it seems" kinds of "it", and "it" as an object ("I've got it"), are about things.
+// Someone who goes by it/its is only ever "it" as a subject.
+function isEnglishThingIt(text: string, position: number, word: string): boolean {
+    if (word.toLowerCase() !== "it") return false;
+
+    if (!isSentenceStart(text, position)) {
+        const previous = previousWordOf(text, position);
+        if (previous && !ENGLISH_CLAUSE_STARTERS.has(previous)) return true;
+    }
+
+    // "it's 5pm"
+    if (/^(?:\s+is|\s+was|['’]s)\s+\d/i.test(text.slice(position + word.length))) return true;
+
+    const [next, after] = wordsAfter(text, position, word, 2).map(w => w.toLowerCase());
+    if (!next) return false;
+    if (ENGLISH_DUMMY_IT_VERBS.has(next)) return true;
+    if (next === "is" || next === "was" || next === "'s" || next === "’s") {
+        return !!after && ENGLISH_DUMMY_IT_COMPLEMENTS.has(after);
+    }
+    return false;
+}
+
+const TABLES: { [language: string]: LanguageTable; } = {
+    [Language.SPANISH]: {
+        masculine: set("él", { subject: ["él"], object: ["él"] }),
+        feminine: set("ella", { subject: ["ella"], object: ["ella"] }),
+        neutral: [
+            set("elle", { subject: ["elle"], object: ["elle"] }),
+            set("elli", { subject: ["elli"], object: ["elli"] })
+        ],
+        stopWords: ["el", "los", "las", "que", "y", "es", "está", "por", "para", "con", "pero", "muy", "una", "como", "también", "hoy", "mañana", "ayer", "dijo", "tiene", "qué"],
+        possessiveName: name => `de ${name}`
+    },
+    [Language.FRENCH]: {
+        masculine: set("il", { subject: ["il"], object: ["lui"], reflexive: ["lui-même"] }),
+        feminine: set("elle", { subject: ["elle"], object: ["elle"], reflexive: ["elle-même"] }),
+        neutral: [
+            set("iel", { subject: ["iel"], object: ["iel"], reflexive: ["iel-même"] }),
+            set("ielle", { subject: ["ielle"], object: ["ielle"], reflexive: ["ielle-même"] }),
+            set("al", { subject: ["al"], object: ["al"], reflexive: ["al-même"] })
+        ],
+        stopWords: ["le", "les", "des", "est", "et", "pas", "une", "avec", "pour", "dans", "mais", "très", "je", "vous", "c'est", "c’est", "du", "au", "aujourd'hui", "demain", "hier", "dit", "sont", "qui"],
+        possessiveName: name => /^[aeiouhyàâéèêëîïôûü]/i.test(name) ? `d'${name}` : `de ${name}`,
+        // "lui" is only about him after a preposition ("avec lui"), otherwise it's "to him or her"
+        isNotAboutAPerson(text, position, word) {
+            const lower = word.toLowerCase();
+            if (lower === "il") {
+                const [next, after] = wordsAfter(text, position, word, 2).map(w => w.toLowerCase());
+                if (FRENCH_IMPERSONAL.has(next)) return true;
+                // "il est important de", "il est temps que"
+                if ((next === "est" || next === "était") && after && /^(important|temps|possible|impossible|nécessaire|clair|vrai|dommage|tard|tôt|facile|difficile)$/.test(after)) return true;
+            }
+            if (lower === "lui") {
+                const previous = text.slice(0, position).trim().split(/[^\p{L}'’]+/u).pop()?.toLowerCase();
+                return !previous || !["avec", "pour", "chez", "sans", "à", "de", "sur", "contre", "entre", "vers", "après", "avant", "comme", "que", "et"].includes(previous);
+            }
+            return false;
+        }
+    },
+    [Language.GERMAN]: {
+        masculine: set("er", {
+            subject: ["er"],
+            object: ["ihn", "ihm"],
+            possessiveDeterminer: GERMAN_POSSESSIVE_FORMS.map(ending => `sein${ending}`)
+        }),
+        feminine: set("sie", {
+            subject: ["sie"],
+            object: ["sie", "ihr"],
+            possessiveDeterminer: GERMAN_POSSESSIVE_FORMS.map(ending => `ihr${ending}`)
+        }),
+        neutral: [
+            // The English loan, used as is ("they ist heute nicht da")
+            set("they", { subject: ["they"], object: ["them"], possessiveDeterminer: ["their"] }),
+            set("dey", { subject: ["dey"], object: ["dey", "denen"], possessiveDeterminer: ["deren"] }),
+            set("xier", {
+                subject: ["xier"],
+                object: ["xien", "xiem"],
+                possessiveDeterminer: GERMAN_POSSESSIVE_FORMS.map(ending => `xies${ending}`)
+            })
+        ],
+        stopWords: ["der", "die", "das", "und", "ist", "nicht", "ich", "ein", "eine", "mit", "auf", "auch", "sehr", "aber", "wir", "heute", "morgen", "gestern", "hat", "habe", "schon", "noch"],
+        possessiveName: name => /[sßxz]$/i.test(name) ? `${name}'` : `${name}s`,
+        isNotAboutAPerson(text, position, word) {
+            const lower = word.toLowerCase();
+            if (!["sie", "ihr", "ihre", "ihren", "ihrem", "ihrer", "ihres"].includes(lower)) return false;
+
+            // "Sie" and "Ihr" in the middle of a sentence are me being formal with the reader
+            if (word[0] === word[0].toUpperCase() && !isSentenceStart(text, position)) return true;
+
+            // "sie sind", "ihr seid": plural, not her
+            const next = wordsAfter(text, position, word, 1)[0]?.toLowerCase();
+            if (lower === "sie" && next && GERMAN_PLURAL_VERBS.has(next)) return true;
+            if (lower === "ihr" && next && ["seid", "habt", "wart", "könnt", "müsst", "wollt"].includes(next)) return true;
+
+            return false;
+        },
+        // German capitalises nouns, so "ihr Buch" is a possessive and "ich helfe ihr" is an object
+        resolveForm(text, position, word, forms) {
+            if (forms.includes("possessiveDeterminer") && /^\s+\p{Lu}/u.test(text.slice(position + word.length))) {
+                return "possessiveDeterminer";
+            }
+            return forms.find(form => form !== "possessiveDeterminer") ?? forms[0];
+        }
+    },
+    [Language.PORTUGUESE]: {
+        masculine: set("ele", { subject: ["ele"], object: ["ele", "nele"], possessiveDeterminer: ["dele"], possessivePronoun: ["dele"] }),
+        feminine: set("ela", { subject: ["ela"], object: ["ela", "nela"], possessiveDeterminer: ["dela"], possessivePronoun: ["dela"] }),
+        neutral: [
+            set("elu", { subject: ["elu"], object: ["elu", "nelu"], possessiveDeterminer: ["delu"], possessivePronoun: ["delu"] }),
+            set("ile", { subject: ["ile"], object: ["ile", "nile"], possessiveDeterminer: ["dile"], possessivePronoun: ["dile"] })
+        ],
+        stopWords: ["os", "as", "que", "e", "é", "não", "uma", "com", "para", "mas", "muito", "você", "está", "hoje", "amanhã", "ontem", "disse", "tem", "isso", "também"],
+        possessiveName: name => `de ${name}`
+    }
+};
+
+// The neutral form I've picked for each language in settings
+const myNeutralForms = new Map<string, string>();
+
+export function setNeutralForm(language: Language, name: string): void {
+    myNeutralForms.set(language, name);
+}
+
+export function getNeutralFormNames(language: Language): string[] {
+    return TABLES[language]?.neutral.map(s => s.name) ?? [];
+}
+
+function neutralSets(table: LanguageTable, language: string): PronounSet[] {
+    const picked = myNeutralForms.get(language);
+    const first = table.neutral.find(s => s.name === picked) ?? table.neutral[0];
+    return [first, ...table.neutral.filter(s => s !== first)];
+}
+
+// Every set a language has, neutral ones included
+export function getLanguageSets(language: Language): PronounSet[] {
+    const table = TABLES[language];
+    if (!table) return [];
+    return [table.masculine, table.feminine, ...neutralSets(table, language)];
+}
+
+// he/him, she/her and they/them in another language. Other English sets don't have an equivalent.
+export function translatePronounSet(englishSetName: string, language: Language): PronounSet[] {
+    const table = TABLES[language];
+    if (!table) return [];
+
+    switch (englishSetName) {
+        case "he/him":
+            return [table.masculine];
+        case "she/her":
+            return [table.feminine];
+        case "they/them":
+            return neutralSets(table, language);
+        default:
+            return [];
+    }
+}
+
+export function possessiveName(name: string, language: Language): string {
+    return TABLES[language]?.possessiveName(name) ?? `${name}'s`;
+}
+
+export function isNotAboutAPerson(text: string, position: number, word: string, language: Language): boolean {
+    if (language === Language.ENGLISH) return isEnglishThingIt(text, position, word);
+    return TABLES[language]?.isNotAboutAPerson?.(text, position, word) ?? false;
+}
+
+export function resolveLanguageForm(text: string, position: number, word: string, forms: PronounForm[], language: Language): PronounForm | undefined {
+    return TABLES[language]?.resolveForm?.(text, position, word, forms) ?? forms[0];
+}
+
+const ENGLISH_STOP_WORDS = ["the", "and", "is", "are", "was", "you", "to", "of", "that", "with", "for", "have", "this", "not", "today", "said", "just", "what", "will"];
+
+// Counts common words per language. Short or mixed messages fall back to English,
+// since a wrong guess is worse than no correction.
+export function detectLanguage(text: string): Language {
+    const words = text.toLowerCase().match(/[\p{L}'’]+/gu) ?? [];
+
+    const scores = new Map<Language, number>([[Language.ENGLISH, 0]]);
+    const stopWords: Array<[Language, Set<string>]> = [
+        [Language.ENGLISH, new Set(ENGLISH_STOP_WORDS)],
+        ...Object.entries(TABLES).map(([language, table]) => [language as Language, new Set(table.stopWords)] as [Language, Set<string>])
+    ];
+
+    for (const word of words) {
+        for (const [language, set] of stopWords) {
+            if (set.has(word)) scores.set(language, (scores.get(language) ?? 0) + 1);
+        }
+    }
+
+    const [best, runnerUp] = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+    if (!best || best[1] < 2 || (runnerUp && runnerUp[1] === best[1])) return Language.ENGLISH;
+    return best[0];
+}
@@ -0,0 +1,244 @@
+import { correctPronouns, PronounCorrection, PronounMismatch } from "./pronounAutoCorrect";
+
+// Underlines pronouns I'd correct while I'm still typing, like a spellchecker, using the
+// CSS Custom Highlight API so Discord's editor DOM is never touched. Hovering one shows
+// what I'd change it to, and clicking "Fix" applies it right in the composer.
+//
+// My draft has mentions as <@id> while the editor shows them as pills, so positions can't
+// be shared. I find each word by which occurrence of it it is instead, skipping mentions,
+// emoji and everything else the editor shows as a non-editable element.
+
+const HIGHLIGHT_NAME = "roarings-pronoun-mismatch";
+
+// How long the popover stays up after the mouse leaves, so I can reach the button
+const POPOVER_HIDE_DELAY = 300;
+
+interface LiveMismatch {
+    mismatch: PronounMismatch;
+    // Who it's about, e.g. "Alex (she/her)"
+    about: string;
+    range: Range;
+}
+
+let myDraft = "";
+let myMismatches: LiveMismatch[] = [];
+let myPopover: HTMLDivElement | null = null;
+let myShowing: LiveMismatch | null = null;
+let myHideTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function isSupported(): boolean {
+    return typeof CSS !== "undefined" && "highlights" in CSS && typeof Highlight !== "undefined";
+}
+
+// The composer I'm typing in, or the main one
+function getEditor(): HTMLElement | null {
+    const focused = document.activeElement?.closest<HTMLElement>("[data-slate-editor=\"true\"]");
+    return focused ?? document.querySelector<HTMLElement>("[data-slate-editor=\"true\"]");
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function wordPattern(word: string): RegExp {
+    return new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(word)}(?![\\p{L}\\p{N}_])`, "giu");
+}
+
+// Which occurrence of the word this is in my draft, not counting ones inside <...> like mentions
+function occurrenceAt(draft: string, word: string, position: number): number {
+    const skipped = Array.from(draft.matchAll(/<[^>\s]*>/g), m => [m.index!, m.index! + m[0].length]);
+    let occurrence = 0;
+
+    for (const match of draft.matchAll(wordPattern(word))) {
+        if (match.index! >= position) break;
+        if (!skipped.some(([start, end]) => match.index! >= start && match.index! < end)) occurrence++;
+    }
+
+    return occurrence;
+}
+
+// The same occurrence in the editor, as a DOM range
+function findRange(editor: HTMLElement, word: string, occurrence: number): Range | null {
+    const nodes: Array<{ node: Text; start: number; }> = [];
+    let text = "";
+
+    const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT, {
+        acceptNode: node => node.parentElement?.closest("[contenteditable=\"false\"]")
+            ? NodeFilter.FILTER_REJECT
+            : NodeFilter.FILTER_ACCEPT
+    });
+    let block: Element | null | undefined;
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        // A new line in the editor, so words on either side don't run together
+        const nodeBlock = node.parentElement?.closest("[data-slate-node=\"element\"]");
+        if (nodes.length > 0 && nodeBlock !== block) text += "\n";
+        block = nodeBlock;
+
+        nodes.push({ node: node as Text, start: text.length });
+        text += node.textContent ?? "";
+    }
+
+    const match = Array.from(text.matchAll(wordPattern(word)))[occurrence];
+    if (!match) return null;
+
+    const locate = (offset: number, end: boolean) => {
+        const entry = [...nodes].reverse().find(n => end ? n.start < offset : n.start <= offset);
+        return entry ? { node: entry.node, offset: offset - entry.start } : null;
+    };
+
+    const start = locate(match.index!, false);
+    const end = locate(match.index! + match[0].length, true);
+    if (!start || !end) return null;
+
+    const range = document.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+    return range;
+}
+
+function rangeContains(range: Range, x: number, y: number): boolean {
+    return Array.from(range.getClientRects()).some(rect => x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom);
+}
+
+function getPopover(): HTMLDivElement {
+    if (myPopover) return myPopover;
+
+    myPopover = document.createElement("div");
+    myPopover.className = "roarings-pronoun-popover";
+    myPopover.addEventListener("mouseenter", () => cancelHide());
+    myPopover.addEventListener("mouseleave", () => scheduleHide());
+    document.body.appendChild(myPopover);
+    return myPopover;
+}
+
+function cancelHide(): void {
+    if (myHideTimeout) clearTimeout(myHideTimeout);
+    myHideTimeout = null;
+}
+
+function scheduleHide(): void {
+    cancelHide();
+    myHideTimeout = setTimeout(hidePopover, POPOVER_HIDE_DELAY);
+}
+
+function hidePopover(): void {
+    cancelHide();
+    myShowing = null;
+    if (myPopover) myPopover.style.display = "none";
+}
+
+function showPopover(live: LiveMismatch): void {
+    cancelHide();
+    if (myShowing === live) return;
+    myShowing = live;
+
+    const popover = getPopover();
+    const { wrongPronoun, correctPronoun, confidence } = live.mismatch;
+
+    popover.replaceChildren();
+
+    const suggestion = document.createElement("div");
+    suggestion.className = "roarings-pronoun-popover-suggestion";
+    suggestion.textContent = `"${wrongPronoun}" → "${correctPronoun}"`;
+
+    const details = document.createElement("div");
+    details.className = "roarings-pronoun-popover-details";
+    details.textContent = `About ${live.about} · ${confidence}% sure`;
+
+    const fix = document.createElement("button");
+    fix.className = "roarings-pronoun-popover-fix";
+    fix.textContent = "Fix";
+    // Keep the editor's selection where it is until I apply the fix
+    fix.addEventListener("mousedown", event => event.preventDefault());
+    fix.addEventListener("click", () => applyFix(live));
+
+    popover.append(suggestion, details, fix);
+
+    const rect = live.range.getBoundingClientRect();
+    popover.style.display = "block";
+    popover.style.left = `${rect.left}px`;
+    // Above the word, since the composer sits at the bottom of the window
+    popover.style.top = `${rect.top - popover.offsetHeight - 6}px`;
+}
+
+// Swap the word (and any verb that has to follow, "is" → "are") in the editor itself.
+// Selecting the text and inserting over it goes through Slate's own input handling,
+// so my draft updates just as if I'd typed the correction.
+function applyFix(live: LiveMismatch): void {
+    hidePopover();
+
+    const editor = getEditor();
+    if (!editor) return;
+
+    const { correctedWords, grammarEdits } = correctPronouns(myDraft, { mismatches: [live.mismatch] });
+
+    // From the end, so earlier words keep their place
+    const edits = [...correctedWords, ...grammarEdits]
+        .map(edit => ({ ...edit, occurrence: occurrenceAt(myDraft, edit.original, edit.position) }))
+        .sort((a, b) => b.position - a.position);
+
+    editor.focus();
+    const selection = window.getSelection();
+
+    for (const edit of edits) {
+        const range = findRange(editor, edit.original, edit.occurrence);
+        if (!range || !selection) continue;
+
+        selection.removeAllRanges();
+        selection.addRange(range);
+        document.execCommand("insertText", false, edit.corrected);
+    }
+}
+
+function onMouseMove(event: MouseEvent): void {
+    const live = myMismatches.find(m => rangeContains(m.range, event.clientX, event.clientY));
+
+    if (live) {
+        showPopover(live);
+    } else if (myShowing && !myPopover?.contains(event.target as Node)) {
+        scheduleHide();
+    }
+}
+
+// Underline what I'd correct in my current draft. `describe` says who a correction is about.
+export function showLiveHighlights(draft: string, corrections: PronounCorrection[], describe: (correction: PronounCorrection) => string): void {
+    if (!isSupported()) return;
+
+    const editor = getEditor();
+    myDraft = draft;
+    myMismatches = [];
+
+    if (editor) {
+        for (const correction of corrections) {
+            for (const mismatch of correction.mismatches) {
+                const occurrence = occurrenceAt(draft, mismatch.wrongPronoun, mismatch.position);
+                const range = findRange(editor, mismatch.wrongPronoun, occurrence);
+                if (range) myMismatches.push({ mismatch, about: describe(correction), range });
+            }
+        }
+    }
+
+    if (myMismatches.length === 0) {
+        clearLiveHighlights();
+        return;
+    }
+
+    CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...myMismatches.map(m => m.range)));
+    document.addEventListener("mousemove", onMouseMove);
+
+    // My draft changed, so the popover might be pointing at the wrong word now
+    hidePopover();
+}
+
+export function clearLiveHighlights(): void {
+    myMismatches = [];
+    hidePopover();
+    document.removeEventListener("mousemove", onMouseMove);
+    if (isSupported()) CSS.highlights.delete(HIGHLIGHT_NAME);
+}
+
+export function stopLiveHighlighting(): void {
+    clearLiveHighlights();
+    myPopover?.remove();
+    myPopover = null;
+}
@@ -0,0 +1,84 @@
+// Finds the parts of my message that aren't my own prose (code, quotes, links, emoji...)
+// and blanks them out without moving anything, so positions still line up with what I typed.
+
+export enum SpanKind {
+    CODE_BLOCK = "code_block",
+    INLINE_CODE = "inline_code",
+    QUOTE = "quote",
+    BLOCK_QUOTE = "block_quote",
+    SPOILER = "spoiler",
+    URL = "url",
+    MASKED_LINK = "masked_link",
+    CUSTOM_EMOJI = "custom_emoji",
+    ROLE_MENTION = "role_mention",
+    CHANNEL_MENTION = "channel_mention",
+    TIMESTAMP = "timestamp"
+}
+
+export interface MarkdownSpan {
+    kind: SpanKind;
+    start: number;
+    end: number;
+}
+
+// Code comes first: Discord doesn't parse anything else inside it
+const CODE_PATTERNS: Array<[SpanKind, RegExp]> = [
+    [SpanKind.CODE_BLOCK, /```[\s\S]*?```/g],
+    [SpanKind.INLINE_CODE, /``(?:[^`]|`(?!`))+``|`[^`]+`/g]
+];
+
+const OTHER_PATTERNS: Array<[SpanKind, RegExp]> = [
+    // ">>> " quotes everything after it, "> " just the rest of the line
+    [SpanKind.BLOCK_QUOTE, /(?<=^|\n)>>> [\s\S]*/g],
+    [SpanKind.QUOTE, /(?<=^|\n)> [^\n]*/g],
+    [SpanKind.SPOILER, /\|\|[\s\S]+?\|\|/g],
+    [SpanKind.MASKED_LINK, /\[[^\]\n]+\]\(\s*<?https?:\/\/[^\s)]+>?\s*\)/g],
+    [SpanKind.URL, /<?https?:\/\/[^\s<>]+>?/g],
+    [SpanKind.CUSTOM_EMOJI, /<a?:\w+:\d+>/g],
+    [SpanKind.ROLE_MENTION, /<@&\d+>/g],
+    [SpanKind.CHANNEL_MENTION, /<#\d+>/g],
+    [SpanKind.TIMESTAMP, /<t:-?\d+(?::[tTdDfFR])?>/g]
+];
+
+function matchSpans(content: string, kind: SpanKind, pattern: RegExp): MarkdownSpan[] {
+    return Array.from(content.matchAll(pattern), match => ({
+        kind,
+        start: match.index!,
+        end: match.index! + match[0].length
+    }));
+}
+
+function blank(content: string, spans: MarkdownSpan[]): string {
+    const chars = content.split("");
+    for (const span of spans) {
+        for (let i = span.start; i < span.end; i++) {
+            if (chars[i] !== "\n") chars[i] = " ";
+        }
+    }
+    return chars.join("");
+}
+
+export function findMarkdownSpans(content: string): MarkdownSpan[] {
+    const spans: MarkdownSpan[] = [];
+
+    // Each pattern runs on a copy with the code found so far blanked out,
+    // so nothing can start or end inside a code block
+    let searchable = content;
+    for (const [kind, pattern] of CODE_PATTERNS) {
+        const found = matchSpans(searchable, kind, pattern);
+        spans.push(...found);
+        searchable = blank(searchable, found);
+    }
+
+    for (const [kind, pattern] of OTHER_PATTERNS) {
+        spans.push(...matchSpans(searchable, kind, pattern));
+    }
+
+    return spans.sort((a, b) => a.start - b.start);
+}
+
+// Spaces over every span of the kinds I skip. Newlines stay, so sentences and lines don't merge.
+export function maskMarkdown(content: string, kinds: SpanKind[]): string {
+    if (kinds.length === 0) return content;
+    return blank(content, findMarkdownSpans(content).filter(span => kinds.includes(span.kind)));
+}
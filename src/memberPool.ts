@@ -0,0 +1,86 @@
+import { ChannelStore, GuildMemberStore, MessageStore, PermissionsBits, UserStore } from "@webpack/common";
+import { NameCandidate } from "./nameMatcher";
+
+export enum MemberPool {
+    CHANNEL = "channel",
+    RECENT = "recent",
+    GUILD = "guild"
+}
+
+// How many recent messages I look at for the "recent authors" pool
+const RECENT_MESSAGE_LIMIT = 50;
+
+export function getRecentAuthors(channelId: string, limit = RECENT_MESSAGE_LIMIT): string[] {
+    const messages = MessageStore.getMessages(channelId)?.toArray?.() ?? [];
+    return [...new Set<string>(messages.slice(-limit).map((m: any) => m.author?.id).filter(Boolean))];
+}
+
+// Channel overwrites only, on top of everyone being able to see the channel by default.
+// Good enough to keep hidden-channel members out without recomputing Discord's full permissions.
+function canViewChannel(channel: any, userId: string): boolean {
+    const overwrites = channel.permissionOverwrites ?? {};
+    const view = PermissionsBits.VIEW_CHANNEL;
+    const has = (bits: bigint | undefined) => !!bits && (BigInt(bits) & view) !== 0n;
+
+    let allowed = true;
+
+    const everyone = overwrites[channel.guild_id];
+    if (has(everyone?.deny)) allowed = false;
+    if (has(everyone?.allow)) allowed = true;
+
+    const roles: string[] = GuildMemberStore.getMember(channel.guild_id, userId)?.roles ?? [];
+    const roleOverwrites = roles.map(role => overwrites[role]).filter(Boolean);
+    if (roleOverwrites.some(o => has(o.deny))) allowed = false;
+    if (roleOverwrites.some(o => has(o.allow))) allowed = true;
+
+    const member = overwrites[userId];
+    if (has(member?.deny)) allowed = false;
+    if (has(member?.allow)) allowed = true;
+
+    return allowed;
+}
+
+function toCandidate(userId: string, guildId: string | undefined): NameCandidate {
+    const user = UserStore.getUser(userId);
+    const nick = guildId ? GuildMemberStore.getNick(guildId, userId) : null;
+
+    return {
+        userId,
+        names: [...new Set<string>([nick, user?.globalName, user?.username].filter(Boolean))]
+    };
+}
+
+// Everyone I could plausibly be talking about by name in this channel
+export function getNameCandidates(channelId: string, pool: MemberPool): NameCandidate[] {
+    const channel = ChannelStore.getChannel(channelId);
+    if (!channel) return [];
+
+    const myId = UserStore.getCurrentUser()?.id;
+    let userIds: string[];
+
+    if (!channel.guild_id) {
+        // DMs and group DMs only ever have their recipients
+        userIds = channel.recipients ?? [];
+    } else {
+        switch (pool) {
+            case MemberPool.RECENT:
+                userIds = getRecentAuthors(channelId);
+                break;
+
+            case MemberPool.GUILD:
+                userIds = GuildMemberStore.getMemberIds(channel.guild_id) ?? [];
+                break;
+
+            case MemberPool.CHANNEL:
+            default:
+                userIds = (GuildMemberStore.getMemberIds(channel.guild_id) ?? [])
+                    .filter((userId: string) => canViewChannel(channel, userId));
+                break;
+        }
+    }
+
+    return userIds
+        .filter(userId => userId !== myId)
+        .map(userId => toCandidate(userId, channel.guild_id))
+        .filter(candidate => candidate.names.length > 0);
+}
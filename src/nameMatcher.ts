@@ -0,0 +1,155 @@
+import { ENGLISH_WORDS } from "./englishWords";
+import { Language } from "./languages";
+import { getAllPronouns } from "./pronounRegistry";
+
+// Finds people I refer to by name ("Alex said he'd review it") instead of by <@id> mention.
+// Pure text matching, the member list comes from memberPool.ts.
+
+export interface NameCandidate {
+    userId: string;
+    // Server nickname, display name and username
+    names: string[];
+}
+
+export interface NameReference {
+    userId: string;
+    name: string;
+    start: number;
+    end: number;
+    // Confidence I take off for short, common or shared names
+    penalty: number;
+}
+
+// Longest name I try to match, in words ("Mary Jane Watson")
+const MAX_NAME_WORDS = 3;
+
+// Names that are also everyday words, so "will" or "may" in a sentence probably isn't a person
+const COMMON_WORDS = new Set([
+    "will", "may", "mark", "bill", "art", "joy", "hope", "grace", "faith", "sky", "rose", "jack", "frank",
+    "rich", "summer", "june", "april", "august", "max", "sam", "ray", "pat", "dawn", "skye", "bob"
+]);
+
+// Words I never treat as a name, even if someone picked them as one
+const NEVER_NAMES = new Set([
+    "i", "me", "my", "you", "your", "we", "us", "our", "the", "a", "an", "and", "or", "but", "so", "to",
+    "of", "in", "on", "at", "is", "it", "hi", "hey", "ok", "okay", "lol", "yes", "no", "everyone", "here"
+]);
+
+function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[^\p{L}\p{N}_]+/gu, " ").trim();
+}
+
+// Short names and names that are everyday words ("lunch", "max") could just be a word in my
+// sentence, so they only count when I write them like a name
+function isWordLike(name: string): boolean {
+    return !name.includes(" ") && (name.length < 4 || COMMON_WORDS.has(name) || ENGLISH_WORDS.has(name));
+}
+
+function isSentenceStart(content: string, position: number): boolean {
+    return /(^|[.!?\n]\s*)$/.test(content.slice(0, position));
+}
+
+// How I wrote a word-like name: capitalized mid-sentence ("had lunch with Max"), or in exactly
+// the unusual casing they use ("DeeJay"). Null means it reads as a plain word.
+function nameEvidence(written: string, rawNames: string[], content: string, position: number): "capitalized" | "exact" | null {
+    if (rawNames.some(raw => raw === written && raw !== raw.toLowerCase())) return "exact";
+
+    // A capital at the start of a sentence says nothing
+    const capitalized = /^\p{Lu}/u.test(written);
+    return capitalized && !isSentenceStart(content, position) ? "capitalized" : null;
+}
+
+function namePenalty(name: string, sharedBy: number, evidence: "capitalized" | "exact" | null): number {
+    let penalty = 0;
+
+    if (name.length <= 3) penalty += 20;
+    else if (name.length <= 4) penalty += 10;
+
+    if (COMMON_WORDS.has(name) || ENGLISH_WORDS.has(name)) penalty += 25;
+
+    // Capitalized is a hint, but could be emphasis or a title
+    if (evidence === "capitalized" && isWordLike(name)) penalty += 5;
+
+    // Two people go by this name, so I really can't be sure who I meant
+    if (sharedBy > 1) penalty += 30;
+
+    return penalty;
+}
+
+// Every usable name, lowercased and with punctuation stripped, keeping how they write it
+export interface NameIndex {
+    byName: Map<string, Set<string>>;
+    rawNamesByName: Map<string, string[]>;
+}
+
+// Worth building once when I match the same people against many messages
+export function buildNameIndex(candidates: NameCandidate[], language = Language.ENGLISH): NameIndex {
+    // Someone called Ella isn't who I mean by "ella" in Spanish
+    const pronouns = new Set([...getAllPronouns(), ...getAllPronouns(language)]);
+
+    const byName = new Map<string, Set<string>>();
+    const rawNamesByName = new Map<string, string[]>();
+    for (const candidate of candidates) {
+        for (const rawName of candidate.names) {
+            const name = normalizeName(rawName ?? "");
+            if (name.length < 2 || NEVER_NAMES.has(name) || pronouns.has(name)) continue;
+            if (name.split(" ").length > MAX_NAME_WORDS) continue;
+
+            if (!byName.has(name)) byName.set(name, new Set());
+            byName.get(name)!.add(candidate.userId);
+
+            if (!rawNamesByName.has(name)) rawNamesByName.set(name, []);
+            rawNamesByName.get(name)!.push(rawName);
+        }
+    }
+
+    return { byName, rawNamesByName };
+}
+
+export function findNameReferences(content: string, candidates: NameCandidate[], language = Language.ENGLISH): NameReference[] {
+    if (candidates.length === 0) return [];
+    return findIndexedNameReferences(content, buildNameIndex(candidates, language));
+}
+
+export function findIndexedNameReferences(content: string, { byName, rawNamesByName }: NameIndex): NameReference[] {
+    if (byName.size === 0) return [];
+
+    // Don't look inside mentions, emoji or links
+    const skipped = Array.from(content.matchAll(/<[^>\s]*>|https?:\/\/\S+/g), m => [m.index!, m.index! + m[0].length]);
+    const isSkipped = (position: number) => skipped.some(([start, end]) => position >= start && position < end);
+
+    const tokens = Array.from(content.matchAll(/[\p{L}\p{N}_]+/gu), m => ({ text: m[0].toLowerCase(), written: m[0], start: m.index!, end: m.index! + m[0].length }))
+        .filter(token => !isSkipped(token.start));
+
+    const references: NameReference[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        // Prefer the longest name that fits, so "Alex Smith" beats "Alex"
+        for (let words = Math.min(MAX_NAME_WORDS, tokens.length - i); words >= 1; words--) {
+            const slice = tokens.slice(i, i + words);
+            const name = slice.map(t => t.text).join(" ");
+            const userIds = byName.get(name);
+            if (!userIds) continue;
+
+            // "I had lunch" isn't about someone called lunch
+            const evidence = nameEvidence(slice.map(t => t.written).join(" "), rawNamesByName.get(name)!, content, slice[0].start);
+            if (isWordLike(name) && !evidence) continue;
+
+            const penalty = namePenalty(name, userIds.size, evidence);
+            for (const userId of userIds) {
+                references.push({
+                    userId,
+                    name,
+                    start: slice[0].start,
+                    end: slice[slice.length - 1].end,
+                    penalty
+                });
+            }
+
+            i += words - 1;
+            break;
+        }
+    }
+
+    return references;
+}
@@ -0,0 +1,142 @@
+import { NavContextMenuPatchCallback } from "@api/ContextMenu";
+import {
+    ModalCloseButton,
+    ModalContent,
+    ModalFooter,
+    ModalHeader,
+    ModalProps,
+    ModalRoot,
+    ModalSize,
+    openModal
+} from "@utils/modal";
+import { Button, Forms, Menu, React, Text, TextInput, UserStore, useState } from "@webpack/common";
+import { evictCachedPronouns } from "./pronounCache";
+import { getPronounOverride, getPronounOverrides, removePronounOverride, setPronounOverride } from "./pronounOverrides";
+
+function getUserName(userId: string): string {
+    const user = UserStore.getUser(userId);
+    return user?.globalName || user?.username || userId;
+}
+
+function OverrideModal({ modalProps, userId, onSaved }: {
+    modalProps: ModalProps;
+    userId: string;
+    onSaved?(): void;
+}) {
+    const current = getPronounOverride(userId);
+    const [value, setValue] = useState(current ?? "");
+    const [error, setError] = useState<string | null>(null);
+
+    const save = () => {
+        if (!setPronounOverride(userId, value)) {
+            setError("I don't recognise those pronouns. Try something like she/her, he/they or just 'any'.");
+            return;
+        }
+
+        // Whatever I cached from remote sources is beside the point now
+        evictCachedPronouns(userId);
+        onSaved?.();
+        modalProps.onClose();
+    };
+
+    const remove = () => {
+        removePronounOverride(userId);
+        onSaved?.();
+        modalProps.onClose();
+    };
+
+    return (
+        <ModalRoot {...modalProps} size={ModalSize.SMALL}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Pronouns for {getUserName(userId)}</Text>
+                <ModalCloseButton onClick={modalProps.onClose} />
+            </ModalHeader>
+
+            <ModalContent>
+                <Forms.FormText style={{ marginTop: 16, marginBottom: 8 }}>
+                    I'll use these instead of PronounDB, their profile or my custom API.
+                </Forms.FormText>
+                <TextInput
+                    value={value}
+                    placeholder="she/her"
+                    onChange={(v: string) => { setValue(v); setError(null); }}
+                />
+                {error && (
+                    <Text variant="text-sm/normal" style={{ color: "var(--text-danger)", marginTop: 8 }}>{error}</Text>
+                )}
+            </ModalContent>
+
+            <ModalFooter>
+                <Button color={Button.Colors.BRAND} disabled={!value.trim()} onClick={save}>
+                    Save
+                </Button>
+                {current && (
+                    <Button color={Button.Colors.RED} look={Button.Looks.LINK} style={{ marginRight: "auto" }} onClick={remove}>
+                        Remove override
+                    </Button>
+                )}
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+export function openOverrideModal(userId: string, onSaved?: () => void): void {
+    openModal(modalProps => <OverrideModal modalProps={modalProps} userId={userId} onSaved={onSaved} />);
+}
+
+// "Set pronouns for this user" when I right-click someone
+export const userContextMenuPatch: NavContextMenuPatchCallback = (children, { user }) => {
+    if (!user || user.id === UserStore.getCurrentUser()?.id) return;
+
+    children.push(
+        <Menu.MenuItem
+            id="roarings-pronoun-override"
+            label="Set pronouns for this user"
+            action={() => openOverrideModal(user.id)}
+        />
+    );
+};
+
+// My overrides section in the plugin settings
+export function OverrideSettings() {
+    // Bumped after every change so the list re-reads my overrides
+    const [, setVersion] = useState(0);
+    const refresh = () => setVersion(v => v + 1);
+
+    const overrides = getPronounOverrides()
+        .map(o => ({ ...o, name: getUserName(o.userId) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    return (
+        <div>
+            <Forms.FormTitle tag="h5">My pronoun overrides</Forms.FormTitle>
+            {overrides.length === 0 && (
+                <Forms.FormText>
+                    None yet. Right-click someone and pick "Set pronouns for this user" to add one.
+                </Forms.FormText>
+            )}
+
+            {overrides.map(override => (
+                <div key={override.userId} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4 }}>
+                    <Text variant="text-sm/semibold" style={{ flexGrow: 1 }}>
+                        {override.name}: {override.pronouns}
+                    </Text>
+                    <Button
+                        size={Button.Sizes.SMALL}
+                        color={Button.Colors.PRIMARY}
+                        onClick={() => openOverrideModal(override.userId, refresh)}
+                    >
+                        Edit
+                    </Button>
+                    <Button
+                        size={Button.Sizes.SMALL}
+                        color={Button.Colors.RED}
+                        onClick={() => { removePronounOverride(override.userId); refresh(); }}
+                    >
+                        Remove
+                    </Button>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,54 @@
+import { ChannelStore, UserStore } from "@webpack/common";
+import { getRecentAuthors } from "./memberPool";
+import { extractMentions, fetchPronounsForUsers, FetchOptions } from "./pronounAutoCorrect";
+import { isIgnoredUser } from "./scopeRules";
+
+// Pronouns I look up before I hit send, so the pre-send check can answer from my cache.
+// Lookups share the cache, the in-flight requests and the source backoff with the send path,
+// so prefetching someone I already know costs nothing.
+
+// How many recent messages in a channel I prefetch the authors of
+const RECENT_PREFETCH_LIMIT = 20;
+
+// The people I'm likely to talk about in this channel. DM recipients I'm talking to for sure,
+// whoever talked recently only maybe, so they get a lighter lookup.
+export function getPrefetchTargets(channelId: string): { recipients: string[]; recentAuthors: string[]; } {
+    const channel = ChannelStore.getChannel(channelId);
+    if (!channel) return { recipients: [], recentAuthors: [] };
+
+    const myId = UserStore.getCurrentUser()?.id;
+    const recipients = (channel.recipients ?? []).filter((userId: string) => userId !== myId);
+    const recentAuthors = getRecentAuthors(channelId, RECENT_PREFETCH_LIMIT)
+        .filter(userId => userId !== myId && !recipients.includes(userId));
+
+    return { recipients, recentAuthors };
+}
+
+// Everyone I've picked from the mention autocomplete so far, which my draft stores as <@id>
+export function getDraftMentions(draft: string | undefined): string[] {
+    if (!draft) return [];
+
+    const myId = UserStore.getCurrentUser()?.id;
+    return extractMentions(draft).filter(userId => userId !== myId);
+}
+
+// Fire and forget, nothing waits on this. People on my ignore list are never looked up.
+export function prefetchPronouns(userIds: string[], options: FetchOptions): void {
+    const wanted = userIds.filter(userId => !isIgnoredUser(userId));
+    if (wanted.length === 0) return;
+
+    fetchPronounsForUsers(wanted, options).catch(error =>
+        console.warn("[RoaringsPronounAutoCorrect] My pronoun prefetch failed:", error)
+    );
+}
+
+// The promise's value if it settles within the budget, undefined if it doesn't.
+// It keeps running either way, so whatever it finds still lands in my cache for next time.
+export function withinBudget<T>(promise: Promise<T>, budget: number): Promise<T | undefined> {
+    let timeoutId: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<undefined>(resolve => {
+        timeoutId = setTimeout(() => resolve(undefined), budget);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+}
@@ -1,3 +1,35 @@
+import { fetchUserProfile } from "@utils/discord";
+import { UserProfileStore } from "@webpack/common";
+import { Referent, resolveAntecedents } from "./antecedents";
+import { parsePronounsFromBio, parsePronounsFromText } from "./bioParser";
+import { CustomApiConfig, CustomApiTestResult, fetchBatchFromCustomApi, fetchFromCustomApi, testCustomApi } from "./customApi";
+import { findNameReferences, NameCandidate } from "./nameMatcher";
+import { fixVerbAgreement, GrammarEdit, preserveCase, resolvePronounForm } from "./grammar";
+import { Language, possessiveName } from "./languages";
+import { maskMarkdown, SpanKind } from "./markdownMask";
+import { getCachedPronouns, setCachedPronouns } from "./pronounCache";
+import { getPronounOverride } from "./pronounOverrides";
+import {
+    formatPronounSets,
+    getPronounForms,
+    getPronounSets,
+    PronounForm,
+    PronounSet,
+    resolvePronounSets,
+    takesPluralVerbs
+} from "./pronounRegistry";
+import { scorePronoun } from "./scoring";
+import { ScoreBreakdown, ScoreContribution } from "./scoringFeatures";
+import {
+    checkResponse,
+    isSourceAvailable,
+    limitedFetch,
+    limitRequest,
+    RateLimitError,
+    recordSourceFailure,
+    recordSourceSuccess
+} from "./sourceHealth";
+
 export enum PronounSource {
     PRONOUNDB = "pronoundb",
     DISCORD_BIO = "discord_bio",
@@ -10,12 +42,27 @@ export enum CorrectionMode {
     ASK_FIRST = "ask_first"
 }
 
+// What I do for people whose PronounDB answer isn't a set I can correct to
+export enum SpecialPronounBehavior {
+    USE_NAME = "use_name",
+    WARN = "warn",
+    IGNORE = "ignore"
+}
+
 export interface PronounMismatch {
     wrongPronoun: string;
     correctPronoun: string;
     position: number;
     context: string;
     confidence: number;
+    // Which form I used the wrong pronoun as ("her" can be an object or a possessive)
+    form?: PronounForm;
+    // Replaced with their name, so the name keeps its own case and the verb stays singular
+    usesName?: boolean;
+    // The language I wrote the message in
+    language?: Language;
+    // What went into the confidence, feature by feature
+    scoring?: ScoreContribution[];
 }
 
 export interface CorrectionResult {
@@ -25,83 +72,271 @@ export interface CorrectionResult {
         corrected: string;
         position: number;
     }>;
+    // Extra edits that keep the sentence grammatical, like "is" → "are"
+    grammarEdits: GrammarEdit[];
+}
+
+export interface PronounCorrection {
+    userId: string;
+    userPronouns: string;
+    pronounSets: PronounSet[];
+    mismatches: PronounMismatch[];
+    confidence: number;
+}
+
+// A heads-up about someone I can't correct for, like a person who asks to be asked
+export interface PronounNotice {
+    userId: string;
+    userPronouns: string;
+    // The pronouns I used for them
+    words: string[];
+}
+
+// Every pronoun I scored, flagged or not, so debug mode can show why
+export interface ScoredPronoun {
+    userId: string;
+    word: string;
+    position: number;
+    breakdown: ScoreBreakdown;
+    flagged: boolean;
+}
+
+export interface PronounIssues {
+    corrections: PronounCorrection[];
+    notices: PronounNotice[];
+    scored: ScoredPronoun[];
 }
 
 export interface FetchOptions {
     sources: PronounSource[];
-    customApiUrl?: string;
+    customApi?: CustomApiConfig;
+    // The server I'm chatting in, so per-server profiles count
+    guildId?: string;
     timeout?: number;
+    // A prefetch for people I might never talk about, so it leaves out their Discord profile (and the
+    // sources I ranked after it) and doesn't cache "unspecified", which would keep the send path
+    // from reading their bio later
+    speculative?: boolean;
 }
 
 export interface DetectionOptions {
-    skipQuotedText?: boolean;
+    // Markdown I don't correct inside, like code blocks and quotes
+    skippedSpans?: SpanKind[];
     confidenceThreshold?: number;
+    // People I might refer to by name instead of mentioning them
+    nameCandidates?: NameCandidate[];
+    avoidPronouns?: SpecialPronounBehavior;
+    askForPronouns?: SpecialPronounBehavior;
+    otherPronouns?: SpecialPronounBehavior;
+    // The language my message is in, English unless I say otherwise
+    language?: Language;
 }
 
-// My pronoun mappings for detection and correction
-const PRONOUN_SETS = {
-    "he/him": {
-        subject: ["he"],
-        object: ["him"],
-        possessive: ["his"],
-        possessiveObject: ["his"],
-        reflexive: ["himself"]
-    },
-    "she/her": {
-        subject: ["she"],
-        object: ["her"],
-        possessive: ["her"],
-        possessiveObject: ["hers"],
-        reflexive: ["herself"]
-    },
-    "they/them": {
-        subject: ["they"],
-        object: ["them"],
-        possessive: ["their"],
-        possessiveObject: ["theirs"],
-        reflexive: ["themselves", "themself"]
-    },
-    "it/its": {
-        subject: ["it"],
-        object: ["it"],
-        possessive: ["its"],
-        possessiveObject: ["its"],
-        reflexive: ["itself"]
-    }
-};
+// PronounDB v2 takes up to 50 ids per lookup
+const PRONOUNDB_BATCH_SIZE = 50;
 
-// Cache for pronouns I've looked up (so I don't spam APIs)
-const myPronounCache = new Map<string, { pronouns: string; timestamp: number }>();
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+// Lookups already running, shared by every message that needs the same person
+const myInFlight = new Map<string, Promise<string>>();
+// Speculative prefetches only share with each other, they didn't ask every source
+const mySpeculativeInFlight = new Map<string, Promise<string>>();
 
 export async function fetchPronouns(userId: string, options: FetchOptions): Promise<string> {
-    // Check my cache first
-    const cached = myPronounCache.get(userId);
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-        return cached.pronouns;
+    const results = await fetchPronounsForUsers([userId], options);
+    return results.get(userId) ?? "unspecified";
+}
+
+// Only what I already know from my overrides and cache, never a network request.
+// For live checks while I type, where anyone I haven't looked up yet is just "unspecified".
+export function peekPronounsForUsers(userIds: string[]): Map<string, string> {
+    const results = new Map<string, string>();
+
+    for (const userId of new Set(userIds)) {
+        const pronouns = getPronounOverride(userId) ?? getCachedPronouns(userId)?.pronouns;
+        if (pronouns) results.set(userId, pronouns);
+    }
+
+    return results;
+}
+
+// Look up everyone I mentioned together, so PronounDB gets one request instead of one per person
+export async function fetchPronounsForUsers(userIds: string[], options: FetchOptions): Promise<Map<string, string>> {
+    const results = new Map<string, string>();
+    const remaining: string[] = [];
+    const stale: string[] = [];
+    const inFlight = options.speculative ? mySpeculativeInFlight : myInFlight;
+
+    for (const userId of new Set(userIds)) {
+        // Pronouns I've set myself beat anything a remote source says
+        const override = getPronounOverride(userId);
+        if (override) {
+            results.set(userId, override);
+            continue;
+        }
+
+        // Then my cache. Stale entries still count, I just refresh them afterwards.
+        const cached = getCachedPronouns(userId);
+        if (cached) {
+            results.set(userId, cached.pronouns);
+            if (cached.stale && !options.speculative && !myInFlight.has(userId)) stale.push(userId);
+        } else {
+            remaining.push(userId);
+        }
     }
 
-    const sources = options.sources || [PronounSource.PRONOUNDB];
+    if (stale.length > 0) {
+        startLookup(stale, options)
+            .catch(error => console.warn("[RoaringsPronounAutoCorrect] My background cache refresh failed:", error));
+    }
+
+    // Someone another message is already looking up just waits for that lookup
+    const notStarted = remaining.filter(userId => !inFlight.has(userId) && !(options.speculative && myInFlight.has(userId)));
+    if (notStarted.length > 0) startLookup(notStarted, options);
+
+    await Promise.all(remaining.map(async userId => {
+        results.set(userId, await (inFlight.get(userId) ?? myInFlight.get(userId))!);
+    }));
+
+    return results;
+}
+
+// Look these people up together and share the lookup with anyone who needs them before it's done
+function startLookup(userIds: string[], options: FetchOptions): Promise<Map<string, string>> {
+    const lookup = lookupFromSources(userIds, options);
+    const inFlight = options.speculative ? mySpeculativeInFlight : myInFlight;
+
+    for (const userId of userIds) {
+        const pronouns = lookup.then(found => found.get(userId) ?? "unspecified");
+        inFlight.set(userId, pronouns);
+
+        const done = () => {
+            if (inFlight.get(userId) === pronouns) inFlight.delete(userId);
+        };
+        pronouns.then(done, done);
+    }
+
+    return lookup;
+}
+
+// Ask my sources about these people and cache what they say, "unspecified" included
+async function lookupFromSources(userIds: string[], options: FetchOptions): Promise<Map<string, string>> {
+    const results = new Map<string, string>();
+    // A source failed for these people, so "unspecified" might just be a network hiccup
+    const failed = new Set<string>();
+    let remaining = userIds;
+
+    // Reading someone's profile is a Discord API request, only worth it for people I'm talking to.
+    // Sources I ranked below their profile wait too, or their answer would be cached over it.
+    const configured = options.sources || [PronounSource.PRONOUNDB];
+    const profileRank = configured.indexOf(PronounSource.DISCORD_BIO);
+    const sources = options.speculative && profileRank !== -1 ? configured.slice(0, profileRank) : configured;
     const timeout = options.timeout || 5000;
 
-    // Try each source I've configured
+    // Try each source I've configured, only asking about people the earlier ones didn't know
     for (const source of sources) {
-        try {
-            const pronouns = await fetchFromSource(userId, source, options, timeout);
-            if (pronouns && pronouns !== "unspecified") {
+        if (remaining.length === 0) break;
+
+        const found = await fetchBatchFromSource(remaining, source, options, timeout);
+
+        for (const userId of remaining) {
+            const pronouns = found.get(userId);
+            if (pronouns === undefined) {
+                failed.add(userId);
+            } else if (pronouns && pronouns !== "unspecified") {
                 // Cache the result for my future use
-                myPronounCache.set(userId, {
-                    pronouns,
-                    timestamp: Date.now()
-                });
-                return pronouns;
+                setCachedPronouns(userId, pronouns, source);
+                results.set(userId, pronouns);
             }
+        }
+
+        remaining = remaining.filter(userId => !results.has(userId));
+    }
+
+    for (const userId of remaining) {
+        // Nobody has pronouns for them, worth remembering so I stop asking on every message
+        if (!failed.has(userId) && !options.speculative) setCachedPronouns(userId, "unspecified", null);
+        results.set(userId, "unspecified");
+    }
+
+    return results;
+}
+
+// Skips a source its circuit breaker has shut, and tells the breaker how the lookup went.
+// Anyone missing from the result counts as a failed lookup, so their "unspecified" isn't cached.
+async function fetchBatchFromSource(
+    userIds: string[],
+    source: PronounSource,
+    options: FetchOptions,
+    timeout: number
+): Promise<Map<string, string>> {
+    if (!isSourceAvailable(source)) return new Map();
+
+    try {
+        const results = await fetchBatchFromAvailableSource(userIds, source, options, timeout);
+        recordSourceSuccess(source);
+        return results;
+    } catch (error) {
+        console.warn(`[RoaringsPronounAutoCorrect] My ${source} lookup failed:`, error);
+        recordSourceFailure(source, error);
+        return new Map();
+    }
+}
+
+async function fetchBatchFromAvailableSource(
+    userIds: string[],
+    source: PronounSource,
+    options: FetchOptions,
+    timeout: number
+): Promise<Map<string, string>> {
+    if (source === PronounSource.PRONOUNDB) {
+        try {
+            return await withTimeout(timeout, signal => fetchFromPronounDBBatch(userIds, signal));
+        } catch (error) {
+            // Asking one by one after a 429 would only make it worse
+            if (error instanceof RateLimitError) throw error;
+            console.warn("[RoaringsPronounAutoCorrect] My PronounDB v2 lookup failed, falling back to v1:", error);
+        }
+    }
+
+    if (source === PronounSource.CUSTOM && options.customApi?.batchUrl) {
+        try {
+            return await withTimeout(timeout, signal => fetchFromMyCustomAPIBatch(userIds, options.customApi!, signal));
         } catch (error) {
-            console.warn(`[RoaringsPronounAutoCorrect] My ${source} lookup failed:`, error);
+            if (error instanceof RateLimitError) throw error;
+            console.warn("[RoaringsPronounAutoCorrect] My custom API batch lookup failed, asking one by one:", error);
         }
     }
 
-    return "unspecified";
+    // Everything else (and the PronounDB v1 fallback) is one request per user, so run them side by side
+    const results = new Map<string, string>();
+    const errors: any[] = [];
+
+    await Promise.all(userIds.map(async userId => {
+        try {
+            results.set(userId, await fetchFromSource(userId, source, options, timeout));
+        } catch (error) {
+            errors.push(error);
+        }
+    }));
+
+    // Only a source that failed for everyone counts as down, and a 429 always does
+    const rateLimit = errors.find(error => error instanceof RateLimitError);
+    if (rateLimit || (results.size === 0 && errors.length > 0)) throw rateLimit ?? errors[0];
+    if (errors.length > 0) {
+        console.warn(`[RoaringsPronounAutoCorrect] My ${source} lookup failed for ${errors.length} of ${userIds.length} people:`, errors[0]);
+    }
+
+    return results;
+}
+
+async function withTimeout<T>(timeout: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+        return await run(controller.signal);
+    } finally {
+        clearTimeout(timeoutId);
+    }
 }
 
 async function fetchFromSource(
@@ -110,59 +345,99 @@ async function fetchFromSource(
     options: FetchOptions, 
     timeout: number
 ): Promise<string> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    try {
+    return withTimeout(timeout, async signal => {
         switch (source) {
             case PronounSource.PRONOUNDB:
-                return await fetchFromPronounDB(userId, controller.signal);
+                return await fetchFromPronounDB(userId, signal);
             
             case PronounSource.DISCORD_BIO:
-                return await fetchFromDiscordBio(userId, controller.signal);
+                return await fetchFromDiscordBio(userId, options.guildId, signal);
             
             case PronounSource.CUSTOM:
-                if (options.customApiUrl) {
-                    return await fetchFromMyCustomAPI(userId, options.customApiUrl, controller.signal);
+                if (options.customApi?.url) {
+                    return await fetchFromMyCustomAPI(userId, options.customApi, signal);
                 }
                 break;
         }
         return "unspecified";
-    } finally {
-        clearTimeout(timeoutId);
+    });
+}
+
+async function fetchFromPronounDBBatch(userIds: string[], signal: AbortSignal): Promise<Map<string, string>> {
+    const results = new Map<string, string>();
+
+    for (let i = 0; i < userIds.length; i += PRONOUNDB_BATCH_SIZE) {
+        const batch = userIds.slice(i, i + PRONOUNDB_BATCH_SIZE);
+        const response = await limitedFetch(
+            `https://pronoundb.org/api/v2/lookup?platform=discord&ids=${batch.join(",")}`,
+            { signal }
+        );
+        checkResponse(response, "PronounDB");
+
+        // Users without an account are simply missing from the response
+        const data = await response.json();
+        for (const userId of batch) {
+            results.set(userId, normalizePronounDBSets(data[userId]?.sets?.en));
+        }
     }
+
+    return results;
 }
 
+// Old single-user lookup, only used when v2 fails
 async function fetchFromPronounDB(userId: string, signal: AbortSignal): Promise<string> {
-    const response = await fetch(
+    const response = await limitedFetch(
         `https://pronoundb.org/api/v1/lookup?platform=discord&id=${userId}`,
         { signal }
     );
-    
-    if (!response.ok) {
-        throw new Error(`PronounDB error: ${response.status}`);
-    }
+    checkResponse(response, "PronounDB");
     
     const data = await response.json();
     return normalizePronounsForMe(data.pronouns || "unspecified");
 }
 
-async function fetchFromDiscordBio(userId: string, signal: AbortSignal): Promise<string> {
-    // This would extract pronouns from Discord bio/about me
-    // For now, this is a placeholder for future implementation
-    throw new Error("Discord Bio integration not yet implemented in my plugin");
+async function fetchFromDiscordBio(userId: string, guildId: string | undefined, signal: AbortSignal): Promise<string> {
+    // Use the profile Discord already has loaded, or fetch it if I haven't seen it yet
+    let profile = UserProfileStore.getUserProfile(userId);
+    if (!profile) {
+        await limitRequest(() => fetchUserProfile(userId, { guild_id: guildId }), signal);
+        if (signal.aborted) throw new Error("Discord profile lookup timed out");
+        profile = UserProfileStore.getUserProfile(userId);
+    }
+
+    const guildProfile = guildId ? UserProfileStore.getGuildMemberProfile(userId, guildId) : null;
+
+    // The pronouns field wins over the bio, and the server profile wins over the global one
+    const candidates = [
+        parsePronounsFromText(guildProfile?.pronouns),
+        parsePronounsFromText(profile?.pronouns),
+        parsePronounsFromBio(guildProfile?.bio),
+        parsePronounsFromBio(profile?.bio)
+    ];
+
+    return candidates.find(pronouns => pronouns !== "unspecified") ?? "unspecified";
 }
 
-async function fetchFromMyCustomAPI(userId: string, apiUrl: string, signal: AbortSignal): Promise<string> {
-    const url = apiUrl.replace(/{userId}/g, userId);
-    const response = await fetch(url, { signal });
-    
-    if (!response.ok) {
-        throw new Error(`My custom API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    return normalizePronounsForMe(data.pronouns || "unspecified");
+async function fetchFromMyCustomAPI(userId: string, config: CustomApiConfig, signal: AbortSignal): Promise<string> {
+    return normalizePronounsForMe(await fetchFromCustomApi(userId, config, signal) || "unspecified");
+}
+
+async function fetchFromMyCustomAPIBatch(userIds: string[], config: CustomApiConfig, signal: AbortSignal): Promise<Map<string, string>> {
+    const found = await fetchBatchFromCustomApi(userIds, config, signal);
+
+    // Like PronounDB, anyone missing from the response just has no pronouns there
+    return new Map(userIds.map(userId => [userId, normalizePronounsForMe(found.get(userId) || "unspecified")]));
+}
+
+// The "Test this API" button in settings, with the pronouns I'd end up using
+export async function testMyCustomAPI(
+    userId: string,
+    config: CustomApiConfig,
+    useBatch: boolean
+): Promise<CustomApiTestResult & { pronouns?: string; }> {
+    const result = await testCustomApi(userId, config, useBatch);
+    if (result.error) return result;
+    return { ...result, pronouns: normalizePronounsForMe(result.extracted || "unspecified") };
 }
 
 function normalizePronounsForMe(pronouns: string): string {
@@ -195,220 +470,173 @@ function normalizePronounsForMe(pronouns: string): string {
     return mapping[pronouns.toLowerCase()] || pronouns;
 }
 
-export function detectPronounMismatches(
-    content: string, 
-    userId: string, 
-    correctPronouns: string,
-    options: DetectionOptions = {}
-): PronounMismatch[] {
-    const mismatches: PronounMismatch[] = [];
-    
-    if (correctPronouns === "unspecified" || correctPronouns === "any pronouns") {
-        return mismatches; // Can't detect mismatches if no specific pronouns
-    }
+// PronounDB v2 gives me the sets in the order the person listed them, e.g. ["he", "they"]
+function normalizePronounDBSets(sets: string[] | undefined): string {
+    if (!sets || sets.length === 0) return "unspecified";
 
-    let processedContent = content;
-
-    // Skip quoted text and code blocks if I want to
-    if (options.skipQuotedText) {
-        processedContent = processedContent.replace(/```[\s\S]*?```/g, "");
-        processedContent = processedContent.replace(/`[^`]+`/g, "");
-        processedContent = processedContent.replace(/>[^\n]+/gm, "");
-    }
+    const special: { [key: string]: string } = {
+        "any": "any pronouns",
+        "other": "other pronouns",
+        "ask": "ask for pronouns",
+        "avoid": "avoid pronouns"
+    };
 
-    // Get the correct pronoun set for this user
-    const correctSet = PRONOUN_SETS[correctPronouns.toLowerCase()];
-    if (!correctSet) {
-        console.warn(`[RoaringsPronounAutoCorrect] I don't know how to handle pronouns: ${correctPronouns}`);
-        return mismatches;
-    }
+    if (special[sets[0]]) return special[sets[0]];
 
-    // Check if this is a DM context (no mentions in content)
-    const hasMentions = /<@!?\d+>/.test(content);
-    
-    if (hasMentions) {
-        // Original mention-based detection
-        return detectMismatches_WithMentions(processedContent, userId, correctSet, options);
-    } else {
-        // DM context - check all pronouns in the message
-        return detectMismatches_DMContext(processedContent, correctSet, options);
-    }
+    return formatPronounSets(resolvePronounSets(sets.filter(set => !special[set]).join("/")));
 }
 
-function detectMismatches_WithMentions(
-    processedContent: string,
-    userId: string, 
-    correctSet: any,
-    options: DetectionOptions
-): PronounMismatch[] {
-    const mismatches: PronounMismatch[] = [];
-    
-    // Find where I mentioned this user
-    const mentionPattern = new RegExp(`<@!?${userId}>`, 'g');
-    const mentionMatches = Array.from(processedContent.matchAll(mentionPattern));
-
-    for (const mentionMatch of mentionMatches) {
-        const mentionPos = mentionMatch.index!;
-        
-        // Look for pronouns near this mention (within 200 characters)
-        const searchStart = Math.max(0, mentionPos - 100);
-        const searchEnd = Math.min(processedContent.length, mentionPos + 300);
-        const contextArea = processedContent.slice(searchStart, searchEnd);
-        
-        // Check all pronoun types against what I wrote
-        for (const [type, correctOptions] of Object.entries(correctSet)) {
-            // Build pattern for all pronouns of this type from other sets
-            const allPronounsOfType = Object.values(PRONOUN_SETS)
-                .flatMap(set => set[type as keyof typeof set] || [])
-                .filter(p => !correctOptions.includes(p.toLowerCase()));
-
-            if (allPronounsOfType.length === 0) continue;
-
-            const wrongPronounPattern = new RegExp(
-                `\\b(${allPronounsOfType.join('|')})\\b`,
-                'gi'
-            );
-
-            let match;
-            while ((match = wrongPronounPattern.exec(contextArea)) !== null) {
-                const wrongPronoun = match[0].toLowerCase();
-                const absolutePosition = searchStart + match.index!;
-                
-                // Calculate confidence based on proximity to mention
-                const distanceFromMention = Math.abs(absolutePosition - mentionPos);
-                let confidence = Math.max(60, 100 - (distanceFromMention / 10));
-
-                // Increase confidence if it's clearly referential
-                const surroundingText = contextArea.slice(
-                    Math.max(0, match.index! - 20),
-                    Math.min(contextArea.length, match.index! + match[0].length + 20)
-                );
-
-                if (/\b(is|was|will|can|should|would|has|had|goes|went|says|said)\b/i.test(surroundingText)) {
-                    confidence += 15;
-                }
+export function detectPronounMismatches(
+    content: string, 
+    referents: Referent[],
+    options: DetectionOptions = {}
+): PronounCorrection[] {
+    return detectPronounIssues(content, referents, options).corrections;
+}
 
-                if (confidence >= (options.confidenceThreshold || 70)) {
-                    // Find the best correction for this wrong pronoun
-                    const correctPronoun = findBestCorrection(wrongPronoun, correctSet);
-                    
-                    mismatches.push({
-                        wrongPronoun,
-                        correctPronoun,
-                        position: absolutePosition,
-                        context: surroundingText,
-                        confidence: Math.round(confidence)
-                    });
-                }
-            }
-        }
+function getSpecialBehavior(pronouns: string, options: DetectionOptions): SpecialPronounBehavior | undefined {
+    switch (pronouns) {
+        case "avoid pronouns":
+            return options.avoidPronouns ?? SpecialPronounBehavior.USE_NAME;
+        case "ask for pronouns":
+            return options.askForPronouns ?? SpecialPronounBehavior.WARN;
+        case "other pronouns":
+            return options.otherPronouns ?? SpecialPronounBehavior.WARN;
     }
-
-    return mismatches;
+    return undefined;
 }
 
-function detectMismatches_DMContext(
-    processedContent: string,
-    correctSet: any,
-    options: DetectionOptions
-): PronounMismatch[] {
-    const mismatches: PronounMismatch[] = [];
-    
-    // In DMs, check ALL pronouns in the message since they likely refer to the recipient
-    for (const [type, correctOptions] of Object.entries(correctSet)) {
-        // Build pattern for all pronouns of this type from other sets
-        const allPronounsOfType = Object.values(PRONOUN_SETS)
-            .flatMap(set => set[type as keyof typeof set] || [])
-            .filter(p => !correctOptions.includes(p.toLowerCase()));
-
-        if (allPronounsOfType.length === 0) continue;
-
-        const wrongPronounPattern = new RegExp(
-            `\\b(${allPronounsOfType.join('|')})\\b`,
-            'gi'
-        );
+// Mismatches I can correct, plus notices about people I can't (avoid/ask/other pronouns)
+export function detectPronounIssues(
+    content: string,
+    referents: Referent[],
+    options: DetectionOptions = {}
+): PronounIssues {
+    // Blank out quotes, code and the like without shifting anything,
+    // so every position I find still points at the same spot in my original message
+    const processedContent = maskMarkdown(content, options.skippedSpans ?? []);
+    const language = options.language ?? Language.ENGLISH;
 
-        let match;
-        while ((match = wrongPronounPattern.exec(processedContent)) !== null) {
-            const wrongPronoun = match[0].toLowerCase();
-            const position = match.index!;
-            
-            // Higher base confidence in DMs since pronouns likely refer to the recipient
-            let confidence = 85;
+    const corrections = new Map<string, PronounCorrection>();
+    const notices = new Map<string, PronounNotice>();
+    const scored: ScoredPronoun[] = [];
 
-            // Get surrounding context
-            const contextStart = Math.max(0, position - 20);
-            const contextEnd = Math.min(processedContent.length, position + match[0].length + 20);
-            const surroundingText = processedContent.slice(contextStart, contextEnd);
+    // Work out who every pronoun is about first, then check each against that one person
+    const nameReferences = findNameReferences(processedContent, options.nameCandidates ?? [], language);
 
-            // Increase confidence if it's clearly referential
-            if (/\b(is|was|will|can|should|would|has|had|goes|went|says|said|you|your)\b/i.test(surroundingText)) {
-                confidence += 10;
-            }
+    for (const assignment of resolveAntecedents(processedContent, referents, nameReferences, language)) {
+        if (assignment.agrees) continue;
 
-            // Decrease confidence if it might be about someone else
-            if (/\b(friend|person|someone|they|people|folks|everyone|everyone|anybody)\b/i.test(surroundingText)) {
-                confidence -= 20;
-            }
+        const referent = referents.find(r => r.userId === assignment.userId);
+        if (!referent || referent.pronouns === "unspecified" || referent.pronouns === "any pronouns") {
+            continue; // Can't detect mismatches if no specific pronouns
+        }
 
-            if (confidence >= (options.confidenceThreshold || 70)) {
-                // Find the best correction for this wrong pronoun
-                const correctPronoun = findBestCorrection(wrongPronoun, correctSet);
-                
-                mismatches.push({
-                    wrongPronoun,
-                    correctPronoun,
-                    position,
-                    context: surroundingText,
-                    confidence: Math.round(confidence)
-                });
+        const { word: wrongPronoun, position } = assignment;
+
+        // Get surrounding context
+        const contextStart = Math.max(0, position - 20);
+        const contextEnd = Math.min(processedContent.length, position + wrongPronoun.length + 20);
+        const surroundingText = processedContent.slice(contextStart, contextEnd);
+
+        const breakdown = scorePronoun({
+            text: processedContent,
+            word: wrongPronoun,
+            position,
+            language,
+            distance: assignment.distance,
+            crossesSentence: assignment.crossesSentence,
+            namePenalty: assignment.penalty
+        });
+        const confidence = breakdown.score;
+        const flagged = confidence >= (options.confidenceThreshold || 70);
+
+        scored.push({ userId: referent.userId, word: wrongPronoun, position, breakdown, flagged });
+        if (!flagged) continue;
+
+        const form = resolvePronounForm(processedContent, position, wrongPronoun, language);
+        let sets: PronounSet[] = [];
+        let correctPronoun: string;
+        let usesName = false;
+
+        const behavior = getSpecialBehavior(referent.pronouns, options);
+        if (behavior === SpecialPronounBehavior.IGNORE) continue;
+
+        if (behavior === SpecialPronounBehavior.USE_NAME && referent.name) {
+            // They'd rather I skipped pronouns, so their name goes where the pronoun was
+            const possessive = form === "possessiveDeterminer" || form === "possessivePronoun";
+            correctPronoun = possessive ? possessiveName(referent.name, language) : referent.name;
+            usesName = true;
+        } else if (behavior) {
+            // Nothing I can correct to, but I should know
+            if (!notices.has(referent.userId)) {
+                notices.set(referent.userId, { userId: referent.userId, userPronouns: referent.pronouns, words: [] });
             }
+            const notice = notices.get(referent.userId)!;
+            if (!notice.words.includes(wrongPronoun)) notice.words.push(wrongPronoun);
+            continue;
+        } else {
+            // Get every pronoun set this user goes by (mixed sets like he/they have more than one)
+            sets = resolvePronounSets(referent.pronouns, language);
+            if (sets.length === 0) {
+                console.warn(`[RoaringsPronounAutoCorrect] I don't know how to handle pronouns: ${referent.pronouns}`);
+                continue;
+            }
+
+            // Find the best correction for this wrong pronoun from their primary set
+            correctPronoun = findBestCorrection(wrongPronoun, sets[0], form, language);
         }
+
+        if (!corrections.has(referent.userId)) {
+            corrections.set(referent.userId, {
+                userId: referent.userId,
+                userPronouns: referent.pronouns,
+                pronounSets: sets,
+                mismatches: [],
+                confidence: 0
+            });
+        }
+
+        const correction = corrections.get(referent.userId)!;
+        correction.mismatches.push({
+            wrongPronoun,
+            correctPronoun,
+            position,
+            context: surroundingText,
+            confidence,
+            form,
+            usesName,
+            language,
+            scoring: breakdown.contributions
+        });
+        correction.confidence = Math.max(correction.confidence, confidence);
     }
 
-    return mismatches;
+    return { corrections: [...corrections.values()], notices: [...notices.values()], scored };
 }
 
-function findBestCorrection(wrongPronoun: string, correctSet: any): string {
-    const wrong = wrongPronoun.toLowerCase();
-    
-    // Map common wrong pronouns to the correct type
-    const typeMapping = {
-        'he': 'subject',
-        'she': 'subject', 
-        'they': 'subject',
-        'it': 'subject',
-        'him': 'object',
-        'her': 'object',
-        'them': 'object',
-        'his': 'possessive',
-        'hers': 'possessiveObject',
-        'theirs': 'possessiveObject',
-        'its': 'possessive',
-        'himself': 'reflexive',
-        'herself': 'reflexive',
-        'themselves': 'reflexive',
-        'themself': 'reflexive',
-        'itself': 'reflexive'
-    };
-
-    const type = typeMapping[wrong];
-    if (type && correctSet[type] && correctSet[type].length > 0) {
-        return correctSet[type][0]; // Return first option of correct type
+function findBestCorrection(wrongPronoun: string, correctSet: PronounSet, form: PronounForm | undefined, language: Language): string {
+    // Use the same form of their pronoun as the one I got wrong
+    form ??= getPronounForms(wrongPronoun, language)[0];
+    if (form && correctSet[form].length > 0) {
+        // Some languages list several words per form in the same order, like German
+        // "ihn"/"ihm" and "sie"/"ihr", or "seinen"/"ihren", so I keep the case the same
+        const wrongSet = getPronounSets(language).find(set => set[form!].includes(wrongPronoun));
+        const index = wrongSet ? wrongSet[form].indexOf(wrongPronoun) : 0;
+        return correctSet[form][index] ?? correctSet[form][0];
     }
 
     // Fallback to subject pronoun
-    return correctSet.subject?.[0] || wrongPronoun;
+    return correctSet.subject[0] || wrongPronoun;
 }
 
-export function correctPronouns(content: string, correction: any): CorrectionResult {
+export function correctPronouns(content: string, correction: { mismatches: PronounMismatch[]; }): CorrectionResult {
     let correctedText = content;
-    const correctedWords: Array<{ original: string; corrected: string; position: number }> = [];
-
-    // Sort mismatches by position (reverse order so positions don't shift)
-    const sortedMismatches = correction.mismatches.sort((a: any, b: any) => b.position - a.position);
+    const correctedWords: CorrectionResult["correctedWords"] = [];
+    const grammarEdits: GrammarEdit[] = [];
+    const edits: Array<GrammarEdit & { isGrammar: boolean; }> = [];
 
-    for (const mismatch of sortedMismatches) {
+    for (const mismatch of correction.mismatches) {
         const { wrongPronoun, correctPronoun, position } = mismatch;
         
         // Find the exact word to replace (case-preserving)
@@ -417,38 +645,63 @@ export function correctPronouns(content: string, correction: any): CorrectionRes
             content[position + wrongPronoun.length] : ' ';
 
         // Only replace if it's a whole word
-        if (/\W/.test(beforeChar) && /\W/.test(afterChar)) {
-            // Preserve original case
-            const originalCase = content.slice(position, position + wrongPronoun.length);
-            const correctedPronoun = preserveCase(originalCase, correctPronoun);
-            
-            // Replace in the text
-            correctedText = correctedText.slice(0, position) + 
-                          correctedPronoun + 
-                          correctedText.slice(position + wrongPronoun.length);
+        if (!/\W/.test(beforeChar) || !/\W/.test(afterChar)) continue;
+
+        // Preserve original case
+        const originalCase = content.slice(position, position + wrongPronoun.length);
+        edits.push({
+            original: originalCase,
+            corrected: mismatch.usesName ? correctPronoun : preserveCase(originalCase, correctPronoun),
+            position,
+            reason: "pronoun",
+            isGrammar: false
+        });
+
+        // "she is" → "they are": the verb has to follow when the number changes
+        const toPlural = !mismatch.usesName && takesPluralVerbs(correctPronoun, mismatch.language);
+        if (mismatch.form === "subject" && takesPluralVerbs(wrongPronoun, mismatch.language) !== toPlural) {
+            const verbEdit = fixVerbAgreement(content, position, position + wrongPronoun.length, toPlural);
+            if (verbEdit) edits.push({ ...verbEdit, isGrammar: true });
+        }
+    }
+
+    // Apply edits from the end (reverse order so positions don't shift), skipping any that overlap
+    edits.sort((a, b) => b.position - a.position);
+    let lastStart = Infinity;
+
+    for (const { isGrammar, ...edit } of edits) {
+        if (edit.position + edit.original.length > lastStart) continue;
+        lastStart = edit.position;
 
+        // Replace in the text
+        correctedText = correctedText.slice(0, edit.position) + 
+                      edit.corrected + 
+                      correctedText.slice(edit.position + edit.original.length);
+
+        if (isGrammar) {
+            grammarEdits.push(edit);
+        } else {
             correctedWords.push({
-                original: originalCase,
-                corrected: correctedPronoun,
-                position
+                original: edit.original,
+                corrected: edit.corrected,
+                position: edit.position
             });
         }
     }
 
     return {
         correctedText,
-        correctedWords
+        correctedWords,
+        grammarEdits
     };
 }
 
-function preserveCase(original: string, replacement: string): string {
-    if (original === original.toUpperCase()) {
-        return replacement.toUpperCase(); // ALL CAPS
-    } else if (original[0] === original[0].toUpperCase()) {
-        return replacement.charAt(0).toUpperCase() + replacement.slice(1).toLowerCase(); // Title Case
-    } else {
-        return replacement.toLowerCase(); // lowercase
-    }
+// Apply every correction to my message in one pass. Each pronoun belongs to at most one
+// person, so the positions never conflict.
+export function applyCorrections(content: string, corrections: PronounCorrection[]): CorrectionResult {
+    return correctPronouns(content, {
+        mismatches: corrections.flatMap(correction => correction.mismatches)
+    });
 }
 
 export function extractMentions(text: string): string[] {
@@ -462,23 +715,3 @@ export function extractMentions(text: string): string[] {
     
     return [...new Set(mentions)]; // Remove duplicates
 }
-
-// Clear my pronoun cache
-export function clearMyPronounCache(): void {
-    myPronounCache.clear();
-}
-
-// Get my cache statistics
-export function getMyCacheStats(): { 
-    size: number; 
-    entries: Array<{ userId: string; pronouns: string; age: number }> 
-} {
-    const now = Date.now();
-    const entries = Array.from(myPronounCache.entries()).map(([userId, data]) => ({
-        userId,
-        pronouns: data.pronouns,
-        age: now - data.timestamp
-    }));
-
-    return { size: myPronounCache.size, entries };
-}
\ No newline at end of file
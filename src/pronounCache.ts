@@ -0,0 +1,123 @@
+import * as DataStore from "@api/DataStore";
+
+// My pronoun cache, kept in the plugin's storage so a Discord restart doesn't refetch everyone.
+// Stale entries are still served right away while the caller refreshes them in the background.
+
+const CACHE_KEY = "RoaringsPronounAutoCorrect_pronounCache";
+
+const HOUR = 60 * 60 * 1000;
+
+// How long each source's answer stays fresh. Profiles change more often than PronounDB.
+const SOURCE_TTLS: { [source: string]: number } = {
+    pronoundb: 24 * HOUR,
+    discord_bio: 2 * HOUR,
+    custom: 6 * HOUR
+};
+const DEFAULT_TTL = 6 * HOUR;
+
+// "Nobody knows this person's pronouns" is worth remembering too, just not for as long
+const NEGATIVE_TTL = 3 * HOUR;
+
+// Past this, an entry is too old to even serve while refreshing
+const MAX_AGE = 7 * 24 * HOUR;
+
+// Wait a moment before writing, so a batch of lookups is one write
+const SAVE_DELAY = 2000;
+
+export interface CacheEntry {
+    pronouns: string;
+    // Which source answered, null when none of them knew
+    source: string | null;
+    timestamp: number;
+}
+
+export interface CachedPronouns {
+    pronouns: string;
+    source: string | null;
+    // Past its TTL, so the caller should refresh it
+    stale: boolean;
+}
+
+const myPronounCache = new Map<string, CacheEntry>();
+let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function ttlFor(entry: CacheEntry): number {
+    if (entry.pronouns === "unspecified") return NEGATIVE_TTL;
+    return (entry.source && SOURCE_TTLS[entry.source]) || DEFAULT_TTL;
+}
+
+function scheduleSave(): void {
+    if (saveTimeout) clearTimeout(saveTimeout);
+    saveTimeout = setTimeout(() => {
+        saveTimeout = null;
+        DataStore.set(CACHE_KEY, Object.fromEntries(myPronounCache)).catch((error: any) =>
+            console.warn("[RoaringsPronounAutoCorrect] Couldn't save my pronoun cache:", error)
+        );
+    }, SAVE_DELAY);
+}
+
+export async function loadPronounCache(): Promise<void> {
+    try {
+        const stored: { [userId: string]: CacheEntry } | undefined = await DataStore.get(CACHE_KEY);
+        const now = Date.now();
+
+        for (const [userId, entry] of Object.entries(stored ?? {})) {
+            // Don't overwrite anything I looked up while storage was loading
+            if (now - entry.timestamp < MAX_AGE && !myPronounCache.has(userId)) {
+                myPronounCache.set(userId, entry);
+            }
+        }
+    } catch (error) {
+        console.warn("[RoaringsPronounAutoCorrect] Couldn't load my pronoun cache:", error);
+    }
+}
+
+export function getCachedPronouns(userId: string): CachedPronouns | null {
+    const entry = myPronounCache.get(userId);
+    if (!entry) return null;
+
+    const age = Date.now() - entry.timestamp;
+    if (age >= MAX_AGE) {
+        myPronounCache.delete(userId);
+        scheduleSave();
+        return null;
+    }
+
+    return {
+        pronouns: entry.pronouns,
+        source: entry.source,
+        stale: age >= ttlFor(entry)
+    };
+}
+
+export function setCachedPronouns(userId: string, pronouns: string, source: string | null): void {
+    myPronounCache.set(userId, { pronouns, source, timestamp: Date.now() });
+    scheduleSave();
+}
+
+export function evictCachedPronouns(userId: string): void {
+    if (myPronounCache.delete(userId)) scheduleSave();
+}
+
+// Clear my pronoun cache
+export function clearMyPronounCache(): void {
+    myPronounCache.clear();
+    scheduleSave();
+}
+
+// Get my cache statistics
+export function getMyCacheStats(): {
+    size: number;
+    entries: Array<{ userId: string; pronouns: string; source: string | null; age: number; stale: boolean; }>;
+} {
+    const now = Date.now();
+    const entries = Array.from(myPronounCache.entries()).map(([userId, data]) => ({
+        userId,
+        pronouns: data.pronouns,
+        source: data.source,
+        age: now - data.timestamp,
+        stale: now - data.timestamp >= ttlFor(data)
+    }));
+
+    return { size: myPronounCache.size, entries };
+}
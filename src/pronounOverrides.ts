@@ -0,0 +1,54 @@
+import * as DataStore from "@api/DataStore";
+import { parsePronounsFromText } from "./bioParser";
+
+// Pronouns I've set myself for people, e.g. a friend who told me directly but isn't on PronounDB.
+// These win over every remote source and never expire.
+
+const OVERRIDES_KEY = "RoaringsPronounAutoCorrect_pronounOverrides";
+
+const myPronounOverrides = new Map<string, string>();
+
+function save(): void {
+    DataStore.set(OVERRIDES_KEY, Object.fromEntries(myPronounOverrides)).catch((error: any) =>
+        console.warn("[RoaringsPronounAutoCorrect] Couldn't save my pronoun overrides:", error)
+    );
+}
+
+export async function loadPronounOverrides(): Promise<void> {
+    try {
+        const stored: { [userId: string]: string } | undefined = await DataStore.get(OVERRIDES_KEY);
+
+        for (const [userId, pronouns] of Object.entries(stored ?? {})) {
+            if (!myPronounOverrides.has(userId)) myPronounOverrides.set(userId, pronouns);
+        }
+    } catch (error) {
+        console.warn("[RoaringsPronounAutoCorrect] Couldn't load my pronoun overrides:", error);
+    }
+}
+
+export function getPronounOverride(userId: string): string | undefined {
+    return myPronounOverrides.get(userId);
+}
+
+export function hasPronounOverride(userId: string): boolean {
+    return myPronounOverrides.has(userId);
+}
+
+// Normalizes what I typed ("She/Her", "he and they", "any") the same way profile pronouns are,
+// test/bioParser.test.ts checks these. Returns null when it isn't something I can correct with.
+export function setPronounOverride(userId: string, text: string): string | null {
+    const pronouns = parsePronounsFromText(text);
+    if (pronouns === "unspecified") return null;
+
+    myPronounOverrides.set(userId, pronouns);
+    save();
+    return pronouns;
+}
+
+export function removePronounOverride(userId: string): void {
+    if (myPronounOverrides.delete(userId)) save();
+}
+
+export function getPronounOverrides(): Array<{ userId: string; pronouns: string; }> {
+    return Array.from(myPronounOverrides, ([userId, pronouns]) => ({ userId, pronouns }));
+}
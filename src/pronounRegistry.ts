@@ -0,0 +1,235 @@
+import { getLanguageSets, Language, translatePronounSet } from "./languages";
+
+// Every grammatical form a pronoun set declares, in the order I fall back on
+// when a word could be more than one of them ("her" is an object before it's a determiner)
+export type PronounForm = "subject" | "object" | "possessiveDeterminer" | "possessivePronoun" | "reflexive";
+
+export const PRONOUN_FORMS: PronounForm[] = [
+    "subject",
+    "object",
+    "possessiveDeterminer",
+    "possessivePronoun",
+    "reflexive"
+];
+
+export interface PronounSet {
+    name: string;
+    subject: string[];
+    object: string[];
+    possessiveDeterminer: string[];
+    possessivePronoun: string[];
+    reflexive: string[];
+    // "they are" rather than "they is"
+    pluralVerbs?: boolean;
+    // Added by me in the plugin settings
+    custom?: boolean;
+}
+
+// The sets I ship with
+const BUILT_IN_SETS: PronounSet[] = [
+    {
+        name: "he/him",
+        subject: ["he"],
+        object: ["him"],
+        possessiveDeterminer: ["his"],
+        possessivePronoun: ["his"],
+        reflexive: ["himself"]
+    },
+    {
+        name: "she/her",
+        subject: ["she"],
+        object: ["her"],
+        possessiveDeterminer: ["her"],
+        possessivePronoun: ["hers"],
+        reflexive: ["herself"]
+    },
+    {
+        name: "they/them",
+        subject: ["they"],
+        object: ["them"],
+        possessiveDeterminer: ["their"],
+        possessivePronoun: ["theirs"],
+        reflexive: ["themselves", "themself"],
+        pluralVerbs: true
+    },
+    {
+        name: "it/its",
+        subject: ["it"],
+        object: ["it"],
+        possessiveDeterminer: ["its"],
+        possessivePronoun: ["its"],
+        reflexive: ["itself"]
+    },
+    {
+        name: "xe/xem",
+        subject: ["xe"],
+        object: ["xem"],
+        possessiveDeterminer: ["xyr"],
+        possessivePronoun: ["xyrs"],
+        reflexive: ["xemself"]
+    },
+    {
+        name: "ze/zir",
+        subject: ["ze"],
+        object: ["zir"],
+        possessiveDeterminer: ["zir"],
+        possessivePronoun: ["zirs"],
+        reflexive: ["zirself"]
+    },
+    {
+        name: "ze/hir",
+        subject: ["ze"],
+        object: ["hir"],
+        possessiveDeterminer: ["hir"],
+        possessivePronoun: ["hirs"],
+        reflexive: ["hirself"]
+    },
+    {
+        name: "fae/faer",
+        subject: ["fae"],
+        object: ["faer"],
+        possessiveDeterminer: ["faer"],
+        possessivePronoun: ["faers"],
+        reflexive: ["faerself"]
+    },
+    {
+        name: "ey/em",
+        subject: ["ey"],
+        object: ["em"],
+        possessiveDeterminer: ["eir"],
+        possessivePronoun: ["eirs"],
+        reflexive: ["emself", "eirself"]
+    },
+    {
+        name: "ve/ver",
+        subject: ["ve"],
+        object: ["ver"],
+        possessiveDeterminer: ["vis"],
+        possessivePronoun: ["vis"],
+        reflexive: ["verself"]
+    }
+];
+
+// Sets I've added myself from the plugin settings
+let myCustomSets: PronounSet[] = [];
+
+// The sets for the language I'm writing in. My own sets are English, like PronounDB's.
+export function getPronounSets(language: Language = Language.ENGLISH): PronounSet[] {
+    if (language !== Language.ENGLISH) return getLanguageSets(language);
+    return [...BUILT_IN_SETS, ...myCustomSets];
+}
+
+export function getPronounSet(name: string): PronounSet | undefined {
+    const key = name.trim().toLowerCase();
+    return getPronounSets().find(set => set.name === key);
+}
+
+export function getSetWords(set: PronounSet): string[] {
+    return [...new Set(PRONOUN_FORMS.flatMap(form => set[form]))];
+}
+
+// Every pronoun word any set knows about
+export function getAllPronouns(language: Language = Language.ENGLISH): string[] {
+    return [...new Set(getPronounSets(language).flatMap(getSetWords))];
+}
+
+// Which forms a word can be, across every set
+export function getPronounForms(word: string, language: Language = Language.ENGLISH): PronounForm[] {
+    const lower = word.toLowerCase();
+    return PRONOUN_FORMS.filter(form => getPronounSets(language).some(set => set[form].includes(lower)));
+}
+
+// Whether a subject pronoun takes plural verbs ("they are", but "xe is")
+export function takesPluralVerbs(subject: string, language: Language = Language.ENGLISH): boolean {
+    const lower = subject.toLowerCase();
+    return getPronounSets(language).some(set => set.pluralVerbs && set.subject.includes(lower));
+}
+
+// Split pronouns like "he/they", "they/she" or "ze/hir" into the sets they stand for, in order.
+// The first set is the person's primary one. For another language I hand back its equivalents.
+export function resolvePronounSets(pronouns: string, language: Language = Language.ENGLISH): PronounSet[] {
+    const sets = resolveEnglishSets(pronouns);
+    if (language === Language.ENGLISH) return sets;
+
+    return [...new Set(sets.flatMap(set => translatePronounSet(set.name, language)))];
+}
+
+function resolveEnglishSets(pronouns: string): PronounSet[] {
+    const sets: PronounSet[] = [];
+    if (!pronouns) return sets;
+
+    const words = pronouns.toLowerCase().split("/").map(w => w.trim()).filter(Boolean);
+
+    for (let i = 0; i < words.length; i++) {
+        const word = words[i];
+
+        // "she/her" is one set, "she/they" is two
+        if (sets.some(set => getSetWords(set).includes(word))) continue;
+
+        const candidates = getPronounSets().filter(set => getSetWords(set).includes(word));
+        if (candidates.length === 0) continue;
+
+        // "ze" alone could be ze/zir or ze/hir, the next word settles it
+        const next = words[i + 1];
+        const best = candidates.find(set => next && getSetWords(set).includes(next)) ?? candidates[0];
+        sets.push(best);
+    }
+
+    return sets;
+}
+
+// Turn resolved sets back into the same strings PronounDB gives me:
+// one set keeps its full name ("she/her"), several list their subjects ("he/they")
+export function formatPronounSets(sets: PronounSet[]): string {
+    if (sets.length === 0) return "unspecified";
+    if (sets.length === 1) return sets[0].name;
+    return sets.map(set => set.subject[0]).join("/");
+}
+
+// Match any of these words as a whole word. The lookbehind keeps contractions
+// like "I've" from counting as "ve", unless the language elides ("qu'il", "d'elle").
+// Longest first, so "elle-même" beats "elle".
+export function buildPronounPattern(words: string[], flags = "gi", elides = false): RegExp | null {
+    if (words.length === 0) return null;
+
+    const escaped = [...words]
+        .sort((a, b) => b.length - a.length)
+        .map(w => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    const before = elides ? "\\p{L}\\p{N}_" : "\\p{L}\\p{N}_'’";
+    return new RegExp(`(?<![${before}])(${escaped.join("|")})(?![\\p{L}\\p{N}_])`, flags.includes("u") ? flags : flags + "u");
+}
+
+// Parse my own sets from settings: one per line (or separated by ";"), written as
+// subject/object/possessive determiner/possessive pronoun/reflexive, e.g. "xie/hir/hir/hirs/hirself"
+export function parseCustomPronounSets(spec: string): PronounSet[] {
+    if (!spec) return [];
+
+    const sets: PronounSet[] = [];
+
+    for (const line of spec.split(/[\n;]/)) {
+        const forms = line.toLowerCase().split("/").map(w => w.trim());
+        if (forms.length === 1 && !forms[0]) continue;
+
+        if (forms.length !== PRONOUN_FORMS.length || forms.some(f => !/^[\p{L}'’-]+$/u.test(f))) {
+            console.warn(`[RoaringsPronounAutoCorrect] Skipping my custom pronoun set "${line.trim()}" - it needs all ${PRONOUN_FORMS.length} forms`);
+            continue;
+        }
+
+        const [subject, object, possessiveDeterminer, possessivePronoun, reflexive] = forms;
+        sets.push({
+            name: `${subject}/${object}`,
+            subject: [subject],
+            object: [object],
+            possessiveDeterminer: [possessiveDeterminer],
+            possessivePronoun: [possessivePronoun],
+            reflexive: [reflexive],
+            custom: true
+        });
+    }
+
+    return sets;
+}
+
+export function setCustomPronounSets(spec: string): void {
+    myCustomSets = parseCustomPronounSets(spec);
+}
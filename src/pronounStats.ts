@@ -0,0 +1,127 @@
+import * as DataStore from "@api/DataStore";
+
+// My correction statistics, kept across sessions so I can see how I'm doing over time
+
+const STATS_KEY = "RoaringsPronounAutoCorrect_stats";
+
+// Wait a moment before writing, like my cache does
+const SAVE_DELAY = 2000;
+
+export type ChannelKind = "dm" | "guild";
+
+export interface MyStats {
+    // When I started counting (or last reset)
+    since: number;
+    totalCorrections: number;
+    // Corrections per day, keyed by local date (2024-05-31)
+    byDate: { [date: string]: number; };
+    // Corrections per correction mode
+    byMode: { [mode: string]: number; };
+    // Each wrong → correct pronoun pair, keyed as "he → she"
+    byPair: { [pair: string]: number; };
+    byChannelType: { [kind: string]: number; };
+}
+
+export interface CorrectionEvent {
+    mode: string;
+    channelKind: ChannelKind;
+    pairs: Array<[wrong: string, correct: string]>;
+}
+
+function emptyStats(): MyStats {
+    return {
+        since: Date.now(),
+        totalCorrections: 0,
+        byDate: {},
+        byMode: {},
+        byPair: {},
+        byChannelType: {}
+    };
+}
+
+let myStats = emptyStats();
+let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleSave(): void {
+    if (saveTimeout) clearTimeout(saveTimeout);
+    saveTimeout = setTimeout(() => {
+        saveTimeout = null;
+        DataStore.set(STATS_KEY, myStats).catch((error: any) =>
+            console.warn("[RoaringsPronounAutoCorrect] Couldn't save my stats:", error)
+        );
+    }, SAVE_DELAY);
+}
+
+function increment(counts: { [key: string]: number; }, key: string, by = 1): void {
+    counts[key] = (counts[key] ?? 0) + by;
+}
+
+export function toDateKey(time: number): string {
+    const date = new Date(time);
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export async function loadMyStats(): Promise<void> {
+    try {
+        const stored: MyStats | undefined = await DataStore.get(STATS_KEY);
+        if (!stored) return;
+
+        // Anything I counted while storage was loading still counts
+        const loaded = { ...emptyStats(), ...stored };
+        loaded.totalCorrections += myStats.totalCorrections;
+        for (const field of ["byDate", "byMode", "byPair", "byChannelType"] as const) {
+            for (const [key, count] of Object.entries(myStats[field])) increment(loaded[field], key, count);
+        }
+        myStats = loaded;
+    } catch (error) {
+        console.warn("[RoaringsPronounAutoCorrect] Couldn't load my stats:", error);
+    }
+}
+
+export function recordCorrection(event: CorrectionEvent): void {
+    myStats.totalCorrections++;
+    increment(myStats.byDate, toDateKey(Date.now()));
+    increment(myStats.byMode, event.mode);
+    increment(myStats.byChannelType, event.channelKind);
+
+    for (const [wrong, correct] of event.pairs) {
+        increment(myStats.byPair, `${wrong.toLowerCase()} → ${correct.toLowerCase()}`);
+    }
+
+    scheduleSave();
+}
+
+export function getMyStats(): MyStats {
+    return myStats;
+}
+
+export function resetMyStats(): void {
+    myStats = emptyStats();
+    scheduleSave();
+}
+
+export function exportStatsAsJSON(): string {
+    return JSON.stringify(myStats, null, 4);
+}
+
+// One row per counter, so it opens nicely in a spreadsheet
+export function exportStatsAsCSV(): string {
+    const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const rows = [["category", "key", "count"], ["total", "all", String(myStats.totalCorrections)]];
+
+    const categories: Array<[string, { [key: string]: number; }]> = [
+        ["date", myStats.byDate],
+        ["mode", myStats.byMode],
+        ["pair", myStats.byPair],
+        ["channel_type", myStats.byChannelType]
+    ];
+
+    for (const [category, counts] of categories) {
+        for (const [key, count] of Object.entries(counts).sort(([a], [b]) => a.localeCompare(b))) {
+            rows.push([category, key, String(count)]);
+        }
+    }
+
+    return rows.map(row => row.map(escape).join(",")).join("\n");
+}
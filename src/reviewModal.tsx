@@ -0,0 +1,176 @@
+import {
+    ModalCloseButton,
+    ModalContent,
+    ModalFooter,
+    ModalHeader,
+    ModalProps,
+    ModalRoot,
+    ModalSize,
+    openModal
+} from "@utils/modal";
+import { Button, Forms, React, Text, UserStore, useState } from "@webpack/common";
+import { applyCorrections, CorrectionResult, PronounCorrection, PronounMismatch } from "./pronounAutoCorrect";
+
+export enum ReviewAction {
+    SEND_CORRECTED = "send_corrected",
+    SEND_ORIGINAL = "send_original",
+    CANCEL = "cancel"
+}
+
+export interface ReviewDecision {
+    action: ReviewAction;
+    // Only set when I chose to send the corrected message
+    result?: CorrectionResult;
+}
+
+// Each mismatch gets a key so I can accept/reject it on its own
+function mismatchKey(correctionIndex: number, mismatchIndex: number): string {
+    return `${correctionIndex}:${mismatchIndex}`;
+}
+
+function filterAccepted(corrections: PronounCorrection[], accepted: Set<string>): PronounCorrection[] {
+    return corrections.map((correction, ci) => ({
+        ...correction,
+        mismatches: correction.mismatches.filter((_, mi) => accepted.has(mismatchKey(ci, mi)))
+    }));
+}
+
+function getUserName(userId: string): string {
+    const user = UserStore.getUser(userId);
+    return user?.globalName || user?.username || "Unknown User";
+}
+
+// Show my original message with the wrong pronouns struck out and the fixes next to them
+function MessageDiff({ content, result }: { content: string; result: CorrectionResult; }) {
+    const words = [...result.correctedWords, ...result.grammarEdits].sort((a, b) => a.position - b.position);
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    for (const word of words) {
+        if (word.position < cursor) continue; // Overlapping edit, already shown
+
+        parts.push(content.slice(cursor, word.position));
+        parts.push(
+            <del key={`del-${word.position}`} style={{ color: "var(--text-danger)" }}>{word.original}</del>,
+            <ins key={`ins-${word.position}`} style={{ color: "var(--text-positive)", textDecoration: "none" }}>{word.corrected}</ins>
+        );
+        cursor = word.position + word.original.length;
+    }
+    parts.push(content.slice(cursor));
+
+    return (
+        <Text variant="text-md/normal" style={{ whiteSpace: "pre-wrap", wordBreak: "break-word" }}>
+            {parts}
+        </Text>
+    );
+}
+
+function ReviewModal({ modalProps, content, corrections, onDecide }: {
+    modalProps: ModalProps;
+    content: string;
+    corrections: PronounCorrection[];
+    onDecide(decision: ReviewDecision): void;
+}) {
+    // Everything starts accepted, I reject what I disagree with
+    const [accepted, setAccepted] = useState(() => new Set(
+        corrections.flatMap((c, ci) => c.mismatches.map((_, mi) => mismatchKey(ci, mi)))
+    ));
+
+    const result = applyCorrections(content, filterAccepted(corrections, accepted));
+
+    const toggle = (key: string) => {
+        const next = new Set(accepted);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        setAccepted(next);
+    };
+
+    const decide = (action: ReviewAction) => {
+        onDecide({ action, result: action === ReviewAction.SEND_CORRECTED ? result : undefined });
+        modalProps.onClose();
+    };
+
+    return (
+        <ModalRoot {...modalProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Review pronoun corrections</Text>
+                <ModalCloseButton onClick={() => decide(ReviewAction.CANCEL)} />
+            </ModalHeader>
+
+            <ModalContent>
+                <Forms.FormTitle tag="h5" style={{ marginTop: 16 }}>Changes</Forms.FormTitle>
+                <MessageDiff content={content} result={result} />
+
+                {corrections.map((correction, ci) => (
+                    <React.Fragment key={correction.userId}>
+                        <Forms.FormTitle tag="h5" style={{ marginTop: 16 }}>
+                            {getUserName(correction.userId)} uses {correction.userPronouns}
+                        </Forms.FormTitle>
+
+                        {correction.mismatches.map((mismatch: PronounMismatch, mi: number) => {
+                            const key = mismatchKey(ci, mi);
+                            const isAccepted = accepted.has(key);
+
+                            return (
+                                <div key={key} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 8 }}>
+                                    <div style={{ flexGrow: 1 }}>
+                                        <Text variant="text-md/semibold">
+                                            "{mismatch.wrongPronoun}" → "{mismatch.correctPronoun}"
+                                        </Text>
+                                        <Text variant="text-sm/normal" style={{ color: "var(--text-muted)" }}>
+                                            …{mismatch.context}… ({mismatch.confidence}% confident)
+                                        </Text>
+                                    </div>
+                                    <Button
+                                        size={Button.Sizes.SMALL}
+                                        color={isAccepted ? Button.Colors.GREEN : Button.Colors.PRIMARY}
+                                        onClick={() => toggle(key)}
+                                    >
+                                        {isAccepted ? "Accepted" : "Rejected"}
+                                    </Button>
+                                </div>
+                            );
+                        })}
+                    </React.Fragment>
+                ))}
+            </ModalContent>
+
+            <ModalFooter>
+                <Button color={Button.Colors.BRAND} onClick={() => decide(ReviewAction.SEND_CORRECTED)}>
+                    Send as corrected
+                </Button>
+                <Button color={Button.Colors.PRIMARY} style={{ marginRight: 8 }} onClick={() => decide(ReviewAction.SEND_ORIGINAL)}>
+                    Send original
+                </Button>
+                <Button look={Button.Looks.LINK} color={Button.Colors.PRIMARY} style={{ marginRight: "auto" }} onClick={() => decide(ReviewAction.CANCEL)}>
+                    Cancel and edit
+                </Button>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+// Hold my message until I decide what to do with the corrections
+export function openReviewModal(content: string, corrections: PronounCorrection[]): Promise<ReviewDecision> {
+    return new Promise(resolve => {
+        let decided = false;
+        const onDecide = (decision: ReviewDecision) => {
+            if (decided) return;
+            decided = true;
+            resolve(decision);
+        };
+
+        openModal(
+            modalProps => (
+                <ReviewModal
+                    modalProps={modalProps}
+                    content={content}
+                    corrections={corrections}
+                    onDecide={onDecide}
+                />
+            ),
+            // Closing the modal any other way (Escape, clicking outside) counts as cancel
+            { onCloseCallback: () => onDecide({ action: ReviewAction.CANCEL }) }
+        );
+    });
+}
@@ -0,0 +1,67 @@
+import { NavContextMenuPatchCallback } from "@api/ContextMenu";
+import { Menu, React, UserStore } from "@webpack/common";
+import { CorrectionMode } from "./pronounAutoCorrect";
+import { getScopeRule, isIgnoredUser, ScopeKind, ScopeRule, SCOPE_OFF, setIgnoredUser, setScopeRule } from "./scopeRules";
+
+export const SCOPE_RULE_LABELS: { [rule: string]: string; } = {
+    [SCOPE_OFF]: "Off",
+    [CorrectionMode.AUTO_CORRECT]: "Auto-correct",
+    [CorrectionMode.BLOCK_AND_WARN]: "Block and warn",
+    [CorrectionMode.ASK_FIRST]: "Ask first"
+};
+
+// "Pronoun checks" with a choice of off or a mode, for a server, a channel or a DM partner.
+// Called as a function, since Discord's menus only take their own items as children.
+function scopeRuleMenu(kind: ScopeKind, id: string, label: string) {
+    const current = getScopeRule(kind, id);
+    const group = `roarings-pronoun-scope-${kind}`;
+
+    return (
+        <Menu.MenuItem id={group} label={label}>
+            <Menu.MenuRadioItem
+                id={`${group}-default`}
+                group={group}
+                label="Use my settings"
+                checked={!current}
+                action={() => setScopeRule(kind, id, undefined)}
+            />
+            {(Object.keys(SCOPE_RULE_LABELS) as ScopeRule[]).map(rule => (
+                <Menu.MenuRadioItem
+                    key={rule}
+                    id={`${group}-${rule}`}
+                    group={group}
+                    label={SCOPE_RULE_LABELS[rule]}
+                    checked={current === rule}
+                    action={() => setScopeRule(kind, id, rule)}
+                />
+            ))}
+        </Menu.MenuItem>
+    );
+}
+
+// Right-clicking a channel, category or group DM
+export const channelScopeMenuPatch: NavContextMenuPatchCallback = (children, { channel }) => {
+    if (!channel) return;
+    children.push(scopeRuleMenu(ScopeKind.CHANNEL, channel.id, "Pronoun checks here"));
+};
+
+// Right-clicking a server
+export const guildScopeMenuPatch: NavContextMenuPatchCallback = (children, { guild }) => {
+    if (!guild) return;
+    children.push(scopeRuleMenu(ScopeKind.GUILD, guild.id, "Pronoun checks in this server"));
+};
+
+// Right-clicking someone: my rule for DMs with them, and whether their pronouns are enforced at all
+export const userScopeMenuPatch: NavContextMenuPatchCallback = (children, { user }) => {
+    if (!user || user.id === UserStore.getCurrentUser()?.id) return;
+
+    children.push(
+        scopeRuleMenu(ScopeKind.USER, user.id, "Pronoun checks in DMs with them"),
+        <Menu.MenuCheckboxItem
+            id="roarings-pronoun-ignore"
+            label="Never enforce their pronouns"
+            checked={isIgnoredUser(user.id)}
+            action={() => setIgnoredUser(user.id, !isIgnoredUser(user.id))}
+        />
+    );
+};
@@ -0,0 +1,120 @@
+import * as DataStore from "@api/DataStore";
+import { ChannelStore } from "@webpack/common";
+import { CorrectionMode } from "./pronounAutoCorrect";
+
+// Where my corrections apply. A rule turns checks off, or on with a specific mode, for a whole
+// server, one channel or everything I send to one person in DMs, e.g. off in a roleplay channel
+// where I'm writing as characters. The most specific rule wins, and no rule means my settings.
+// People on my ignore list never have their pronouns enforced anywhere.
+
+const SCOPE_RULES_KEY = "RoaringsPronounAutoCorrect_scopeRules";
+
+export const SCOPE_OFF = "off";
+
+export type ScopeRule = typeof SCOPE_OFF | CorrectionMode;
+
+export enum ScopeKind {
+    GUILD = "guild",
+    CHANNEL = "channel",
+    // The person I'm DMing, whichever DM channel it is
+    USER = "user"
+}
+
+// The rule that decided a channel, and what it was set on
+export interface ScopeMatch {
+    rule: ScopeRule;
+    kind: ScopeKind;
+    id: string;
+}
+
+interface StoredScopeRules {
+    rules: { [kind: string]: { [id: string]: ScopeRule; }; };
+    ignored: string[];
+}
+
+const myRules = new Map<ScopeKind, Map<string, ScopeRule>>(
+    Object.values(ScopeKind).map(kind => [kind, new Map()])
+);
+const myIgnoredUsers = new Set<string>();
+
+function save(): void {
+    const stored: StoredScopeRules = {
+        rules: Object.fromEntries(Array.from(myRules, ([kind, rules]) => [kind, Object.fromEntries(rules)])),
+        ignored: [...myIgnoredUsers]
+    };
+
+    DataStore.set(SCOPE_RULES_KEY, stored).catch((error: any) =>
+        console.warn("[RoaringsPronounAutoCorrect] Couldn't save my scope rules:", error)
+    );
+}
+
+export async function loadScopeRules(): Promise<void> {
+    try {
+        const stored: StoredScopeRules | undefined = await DataStore.get(SCOPE_RULES_KEY);
+
+        for (const [kind, rules] of myRules) {
+            for (const [id, rule] of Object.entries(stored?.rules?.[kind] ?? {})) {
+                if (!rules.has(id)) rules.set(id, rule);
+            }
+        }
+        for (const userId of stored?.ignored ?? []) myIgnoredUsers.add(userId);
+    } catch (error) {
+        console.warn("[RoaringsPronounAutoCorrect] Couldn't load my scope rules:", error);
+    }
+}
+
+export function getScopeRule(kind: ScopeKind, id: string): ScopeRule | undefined {
+    return myRules.get(kind)!.get(id);
+}
+
+// No rule means I go back to whatever the next scope up (or my settings) says
+export function setScopeRule(kind: ScopeKind, id: string, rule: ScopeRule | undefined): void {
+    const rules = myRules.get(kind)!;
+    if (rule) {
+        rules.set(id, rule);
+    } else if (!rules.delete(id)) {
+        return;
+    }
+    save();
+}
+
+export function getScopeRules(): Array<ScopeMatch> {
+    return Array.from(myRules).flatMap(([kind, rules]) => Array.from(rules, ([id, rule]) => ({ kind, id, rule })));
+}
+
+// Channel first (a thread, then its channel, then the category), then the person I'm DMing, then the server
+export function findScopeRule(channelId: string): ScopeMatch | undefined {
+    const channel = ChannelStore.getChannel(channelId);
+    const candidates: Array<[ScopeKind, string | undefined]> = [];
+
+    candidates.push([ScopeKind.CHANNEL, channelId]);
+    for (let current = channel; current?.parent_id; current = ChannelStore.getChannel(current.parent_id)) {
+        candidates.push([ScopeKind.CHANNEL, current.parent_id]);
+    }
+
+    // Only one-on-one DMs, a group DM isn't any single person's
+    candidates.push([ScopeKind.USER, channel?.type === 1 ? channel.recipients?.[0] : undefined]);
+    candidates.push([ScopeKind.GUILD, channel?.guild_id]);
+
+    for (const [kind, id] of candidates) {
+        const rule = id ? getScopeRule(kind, id) : undefined;
+        if (rule) return { rule, kind, id: id! };
+    }
+    return undefined;
+}
+
+export function isIgnoredUser(userId: string): boolean {
+    return myIgnoredUsers.has(userId);
+}
+
+export function setIgnoredUser(userId: string, ignored: boolean): void {
+    if (ignored === myIgnoredUsers.has(userId)) return;
+
+    if (ignored) myIgnoredUsers.add(userId);
+    else myIgnoredUsers.delete(userId);
+    save();
+}
+
+export function getIgnoredUsers(): string[] {
+    return [...myIgnoredUsers];
+}
@@ -0,0 +1,84 @@
+import { Button, ChannelStore, Forms, GuildStore, React, Text, UserStore, useState } from "@webpack/common";
+import { SCOPE_RULE_LABELS } from "./scopeMenu";
+import { getIgnoredUsers, getScopeRules, ScopeKind, setIgnoredUser, setScopeRule } from "./scopeRules";
+
+function getUserName(userId: string): string {
+    const user = UserStore.getUser(userId);
+    return user?.globalName || user?.username || userId;
+}
+
+function describeScope(kind: ScopeKind, id: string): string {
+    switch (kind) {
+        case ScopeKind.GUILD:
+            return `Server: ${GuildStore.getGuild(id)?.name ?? id}`;
+        case ScopeKind.CHANNEL: {
+            const channel = ChannelStore.getChannel(id);
+            const guild = channel?.guild_id ? GuildStore.getGuild(channel.guild_id)?.name : null;
+            const name = channel?.name || (channel?.recipients ?? []).map(getUserName).join(", ") || id;
+            return guild ? `Channel: #${name} (${guild})` : `Channel: ${name}`;
+        }
+        case ScopeKind.USER:
+            return `DMs with ${getUserName(id)}`;
+    }
+}
+
+// My scope rules and ignore list in the plugin settings
+export function ScopeSettings() {
+    // Bumped after every change so the lists re-read my rules
+    const [, setVersion] = useState(0);
+    const refresh = () => setVersion(v => v + 1);
+
+    const rules = getScopeRules()
+        .map(rule => ({ ...rule, description: describeScope(rule.kind, rule.id) }))
+        .sort((a, b) => a.description.localeCompare(b.description));
+
+    const ignored = getIgnoredUsers()
+        .map(userId => ({ userId, name: getUserName(userId) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    return (
+        <div>
+            <Forms.FormTitle tag="h5">Where my pronoun checks apply</Forms.FormTitle>
+            {rules.length === 0 && (
+                <Forms.FormText>
+                    Everywhere, with my settings above. Right-click a server, channel or person to change that just for them.
+                </Forms.FormText>
+            )}
+
+            {rules.map(rule => (
+                <div key={`${rule.kind}-${rule.id}`} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4 }}>
+                    <Text variant="text-sm/semibold" style={{ flexGrow: 1 }}>
+                        {rule.description}: {SCOPE_RULE_LABELS[rule.rule]}
+                    </Text>
+                    <Button
+                        size={Button.Sizes.SMALL}
+                        color={Button.Colors.RED}
+                        onClick={() => { setScopeRule(rule.kind, rule.id, undefined); refresh(); }}
+                    >
+                        Remove
+                    </Button>
+                </div>
+            ))}
+
+            <Forms.FormTitle tag="h5" style={{ marginTop: 16 }}>People whose pronouns I never enforce</Forms.FormTitle>
+            {ignored.length === 0 && (
+                <Forms.FormText>
+                    Nobody. Right-click someone and tick "Never enforce their pronouns" to add them.
+                </Forms.FormText>
+            )}
+
+            {ignored.map(({ userId, name }) => (
+                <div key={userId} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4 }}>
+                    <Text variant="text-sm/semibold" style={{ flexGrow: 1 }}>{name}</Text>
+                    <Button
+                        size={Button.Sizes.SMALL}
+                        color={Button.Colors.RED}
+                        onClick={() => { setIgnoredUser(userId, false); refresh(); }}
+                    >
+                        Remove
+                    </Button>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,65 @@
+import {
+    ModalCloseButton,
+    ModalContent,
+    ModalHeader,
+    ModalRoot,
+    ModalSize,
+    openModal
+} from "@utils/modal";
+import { Forms, React, Text, UserStore } from "@webpack/common";
+import { ScoredPronoun } from "./pronounAutoCorrect";
+
+function getUserName(userId: string): string {
+    const user = UserStore.getUser(userId);
+    return user?.globalName || user?.username || userId;
+}
+
+// Debug mode: every pronoun I scored, and what each feature added or took away
+export function openScoreDebugPanel(scored: ScoredPronoun[], threshold: number): void {
+    openModal(modalProps => (
+        <ModalRoot {...modalProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Why I flagged these pronouns</Text>
+                <ModalCloseButton onClick={modalProps.onClose} />
+            </ModalHeader>
+
+            <ModalContent>
+                <Forms.FormText style={{ marginTop: 16 }}>
+                    Anything at {threshold}% or above gets flagged.
+                </Forms.FormText>
+
+                {scored.map(entry => (
+                    <div key={entry.position} style={{ marginTop: 16 }}>
+                        <Forms.FormTitle tag="h5">
+                            "{entry.word}" at {entry.position} → {getUserName(entry.userId)}:{" "}
+                            {entry.breakdown.score}% {entry.flagged ? "(flagged)" : "(not flagged)"}
+                        </Forms.FormTitle>
+
+                        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                            <tbody>
+                                {entry.breakdown.contributions.map(c => (
+                                    <tr key={c.feature}>
+                                        <td><Text variant="text-sm/normal">{c.label}</Text></td>
+                                        <td style={{ textAlign: "right" }}>
+                                            <Text variant="text-sm/normal" style={{ color: "var(--text-muted)" }}>
+                                                {c.value} × {c.weight}
+                                            </Text>
+                                        </td>
+                                        <td style={{ textAlign: "right", width: 60 }}>
+                                            <Text
+                                                variant="text-sm/semibold"
+                                                style={{ color: c.points >= 0 ? "var(--text-positive)" : "var(--text-danger)" }}
+                                            >
+                                                {c.points >= 0 ? "+" : ""}{c.points}
+                                            </Text>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ))}
+            </ModalContent>
+        </ModalRoot>
+    ));
+}
@@ -0,0 +1,50 @@
+import * as DataStore from "@api/DataStore";
+import { computeScore, ScoreBreakdown, ScoringContext, ScoringFeature } from "./scoringFeatures";
+
+// The weights I've given my confidence features, kept across restarts.
+// What each feature looks for is in scoringFeatures.ts.
+
+const WEIGHTS_KEY = "RoaringsPronounAutoCorrect_scoringWeights";
+
+const myWeights = new Map<string, number>();
+
+export async function loadScoringWeights(): Promise<void> {
+    try {
+        const stored: { [feature: string]: number } | undefined = await DataStore.get(WEIGHTS_KEY);
+        for (const [feature, weight] of Object.entries(stored ?? {})) {
+            if (!myWeights.has(feature)) myWeights.set(feature, weight);
+        }
+    } catch (error) {
+        console.warn("[RoaringsPronounAutoCorrect] Couldn't load my scoring weights:", error);
+    }
+}
+
+function save(): void {
+    DataStore.set(WEIGHTS_KEY, Object.fromEntries(myWeights)).catch((error: any) =>
+        console.warn("[RoaringsPronounAutoCorrect] Couldn't save my scoring weights:", error)
+    );
+}
+
+export function getScoringWeight(feature: ScoringFeature): number {
+    return myWeights.get(feature.id) ?? feature.defaultWeight;
+}
+
+export function setScoringWeight(featureId: string, weight: number): void {
+    myWeights.set(featureId, weight);
+    save();
+}
+
+export function resetScoringWeights(): void {
+    myWeights.clear();
+    save();
+}
+
+export function scorePronoun(context: ScoringContext): ScoreBreakdown {
+    return computeScore(context, getScoringWeight);
+}
+
+// "Mentioned nearby +100, Distance to the mention -2.4, ..." for logs and toasts
+export function formatBreakdown(breakdown: ScoreBreakdown): string {
+    const parts = breakdown.contributions.map(c => `${c.label} ${c.points >= 0 ? "+" : ""}${c.points}`);
+    return `${breakdown.score}% (${parts.join(", ")})`;
+}
@@ -0,0 +1,179 @@
+import { Language } from "./languages";
+
+// How sure I am that a pronoun really is about the person I tied it to.
+// The score is just the sum of named features times their weights, so I can always see why.
+// The weights I've changed are stored by scoring.ts.
+
+export interface ScoringContext {
+    // My message, with skipped markdown blanked out
+    text: string;
+    word: string;
+    position: number;
+    language: Language;
+    // Characters to the mention I tied it to, null when they're implied (DM partner, reply target)
+    distance: number | null;
+    // The mention is in a different sentence than the pronoun
+    crossesSentence: boolean;
+    // Confidence the name matcher takes off for short or shared names
+    namePenalty: number;
+}
+
+export interface ScoreContribution {
+    feature: string;
+    label: string;
+    // What the feature saw (1 = present, or a count like tens of characters)
+    value: number;
+    weight: number;
+    points: number;
+}
+
+export interface ScoreBreakdown {
+    score: number;
+    contributions: ScoreContribution[];
+}
+
+export interface ScoringFeature {
+    id: string;
+    label: string;
+    description: string;
+    defaultWeight: number;
+    measure(context: ScoringContext): number;
+}
+
+// How far around the pronoun I look for verbs and group nouns
+const CONTEXT_RADIUS = 20;
+
+// Past this many tens of characters, distance stops counting against a mention
+const MAX_DISTANCE_STEPS = 40;
+
+interface ContextWords {
+    // Verbs that make a pronoun clearly about someone ("she said")
+    verbs: string[];
+    // Words that mean it might be about someone else ("a friend")
+    groupNouns: string[];
+    // Talking to the person ("you")
+    addressed: string[];
+}
+
+// The words my verb, group noun and addressed features look for, per language
+const CONTEXT_WORDS: { [language: string]: ContextWords; } = {
+    [Language.ENGLISH]: {
+        verbs: ["is", "was", "will", "can", "should", "would", "has", "had", "have", "are", "were", "goes", "went", "says", "said"],
+        groupNouns: ["friend", "person", "someone", "people", "folks", "everyone", "anybody"],
+        addressed: ["you", "your"]
+    },
+    [Language.SPANISH]: {
+        verbs: ["es", "son", "era", "fue", "está", "están", "estaba", "será", "puede", "tiene", "tenía", "va", "dice", "dijo"],
+        groupNouns: ["amigo", "amiga", "persona", "alguien", "gente", "todos", "nadie"],
+        addressed: ["tú", "tu", "te", "usted"]
+    },
+    [Language.FRENCH]: {
+        verbs: ["est", "sont", "était", "sera", "peut", "a", "ont", "avait", "va", "allait", "dit", "disait"],
+        groupNouns: ["ami", "amie", "personne", "quelqu'un", "gens", "tous", "tout le monde"],
+        addressed: ["tu", "toi", "ton", "ta", "tes", "vous", "votre"]
+    },
+    [Language.GERMAN]: {
+        verbs: ["ist", "sind", "war", "waren", "wird", "kann", "soll", "würde", "hat", "haben", "hatte", "geht", "ging", "sagt", "sagte"],
+        groupNouns: ["freund", "freundin", "person", "jemand", "leute", "alle", "niemand"],
+        addressed: ["du", "dich", "dir", "dein", "deine"]
+    },
+    [Language.PORTUGUESE]: {
+        verbs: ["é", "são", "era", "foi", "está", "estão", "estava", "será", "pode", "tem", "têm", "tinha", "vai", "diz", "disse"],
+        groupNouns: ["amigo", "amiga", "pessoa", "alguém", "gente", "todos", "ninguém"],
+        addressed: ["você", "tu", "te", "teu", "tua"]
+    }
+};
+
+// \b only knows ASCII, so "está" or "você" need letter lookarounds instead
+function hasWord(text: string, words: string[] | undefined): boolean {
+    if (!words) return false;
+    return new RegExp(`(?<!\\p{L})(?:${words.join("|")})(?!\\p{L})`, "iu").test(text);
+}
+
+// The words around the pronoun, without the pronoun itself, so "they" can't count as its own context
+function nearby(context: ScoringContext): string {
+    const wordEnd = context.position + context.word.length;
+    const start = Math.max(0, context.position - CONTEXT_RADIUS);
+    const end = Math.min(context.text.length, wordEnd + CONTEXT_RADIUS);
+    return `${context.text.slice(start, context.position)} ${context.text.slice(wordEnd, end)}`;
+}
+
+export const SCORING_FEATURES: ScoringFeature[] = [
+    {
+        id: "mentioned",
+        label: "Mentioned nearby",
+        description: "Starting score when I mentioned or named them",
+        defaultWeight: 100,
+        measure: c => c.distance === null ? 0 : 1
+    },
+    {
+        id: "implied",
+        label: "Implied referent",
+        description: "Starting score when they're only implied, like the person I'm DMing or replying to",
+        defaultWeight: 85,
+        measure: c => c.distance === null ? 1 : 0
+    },
+    {
+        id: "distance",
+        label: "Distance to the mention",
+        description: "Per 10 characters between the pronoun and the mention",
+        defaultWeight: -1,
+        measure: c => c.distance === null ? 0 : Math.min(c.distance / 10, MAX_DISTANCE_STEPS)
+    },
+    {
+        id: "verbNearby",
+        label: "Verb nearby",
+        description: "A verb like is, was, said or will next to the pronoun, so it's clearly about someone",
+        defaultWeight: 15,
+        measure: c => hasWord(nearby(c), CONTEXT_WORDS[c.language]?.verbs) ? 1 : 0
+    },
+    {
+        id: "addressed",
+        label: "Talking to them",
+        description: "\"you\" or \"your\" nearby while they're implied, so I'm in a conversation with them",
+        defaultWeight: 10,
+        measure: c => c.distance === null && hasWord(nearby(c), CONTEXT_WORDS[c.language]?.addressed) ? 1 : 0
+    },
+    {
+        id: "sentenceBoundary",
+        label: "Sentence boundary in between",
+        description: "The mention is in the sentence before, not the same one",
+        defaultWeight: -10,
+        measure: c => c.crossesSentence ? 1 : 0
+    },
+    {
+        id: "groupNoun",
+        label: "Group noun nearby",
+        description: "Words like friend, someone or people nearby, so it might be about someone else",
+        defaultWeight: -20,
+        measure: c => hasWord(nearby(c), CONTEXT_WORDS[c.language]?.groupNouns) ? 1 : 0
+    },
+    {
+        id: "nameOnly",
+        label: "Only named",
+        description: "Per point of name uncertainty (short, common or shared names) when I didn't @mention them",
+        defaultWeight: -1,
+        measure: c => c.namePenalty
+    }
+];
+
+// Sum of every feature that saw something, times its weight, capped to 0-100
+export function computeScore(context: ScoringContext, weightOf: (feature: ScoringFeature) => number): ScoreBreakdown {
+    const contributions: ScoreContribution[] = [];
+    let total = 0;
+
+    for (const feature of SCORING_FEATURES) {
+        const value = feature.measure(context);
+        if (value === 0) continue;
+
+        const weight = weightOf(feature);
+        const points = Math.round(value * weight * 10) / 10;
+        total += points;
+        contributions.push({ feature: feature.id, label: feature.label, value, weight, points });
+    }
+
+    return {
+        score: Math.round(Math.min(100, Math.max(0, total))),
+        contributions
+    };
+}
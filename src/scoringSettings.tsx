@@ -0,0 +1,53 @@
+import { Button, Forms, React, Text, TextInput, useState } from "@webpack/common";
+import { getScoringWeight, resetScoringWeights, setScoringWeight } from "./scoring";
+import { SCORING_FEATURES, ScoringFeature } from "./scoringFeatures";
+
+function WeightInput({ feature }: { feature: ScoringFeature; }) {
+    const [value, setValue] = useState(String(getScoringWeight(feature)));
+
+    return (
+        <TextInput
+            type="number"
+            value={value}
+            onChange={(next: string) => {
+                setValue(next);
+                // Half-typed values like "-" just don't count yet
+                const weight = Number(next);
+                if (next.trim() !== "" && Number.isFinite(weight)) setScoringWeight(feature.id, weight);
+            }}
+        />
+    );
+}
+
+// My scoring weights in the plugin settings, one box per feature
+export function ScoringSettings() {
+    // Bumped after a reset so every box re-reads its weight
+    const [version, setVersion] = useState(0);
+
+    return (
+        <div>
+            <Forms.FormTitle tag="h5">Confidence scoring weights</Forms.FormTitle>
+            <Forms.FormText style={{ marginBottom: 8 }}>
+                A pronoun's confidence is the sum of every feature that applies times its weight, capped to 0-100.
+            </Forms.FormText>
+
+            {SCORING_FEATURES.map(feature => (
+                <div key={`${feature.id}-${version}`} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 8 }}>
+                    <div style={{ flexGrow: 1 }}>
+                        <Text variant="text-sm/semibold">{feature.label}</Text>
+                        <Text variant="text-xs/normal" style={{ color: "var(--text-muted)" }}>
+                            {feature.description} (default {feature.defaultWeight})
+                        </Text>
+                    </div>
+                    <div style={{ width: 80 }}>
+                        <WeightInput feature={feature} />
+                    </div>
+                </div>
+            ))}
+
+            <Button size={Button.Sizes.SMALL} color={Button.Colors.PRIMARY} onClick={() => { resetScoringWeights(); setVersion(v => v + 1); }}>
+                Reset to defaults
+            </Button>
+        </div>
+    );
+}
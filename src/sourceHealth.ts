@@ -0,0 +1,179 @@
+// Keeps a failing pronoun source from stalling my sends. Each source gets a circuit breaker:
+// after a failure I back off (1s, 2s, ...) or wait out the Retry-After it gave me, and after
+// a few failures in a row I stop asking it for a while, then let one request through to see
+// if it's back. Also caps how many lookups run at once, across every source.
+
+export enum CircuitState {
+    // Working, ask it as usual
+    CLOSED = "closed",
+    // Failing, skip it until the cooldown is over
+    OPEN = "open",
+    // Cooldown over, one request decides whether it's back
+    HALF_OPEN = "half_open"
+}
+
+// A 429 from a source, with how long it asked me to wait
+export class RateLimitError extends Error {
+    constructor(source: string, public retryAfter?: number) {
+        super(`${source} is rate limiting me${retryAfter ? ` for ${Math.ceil(retryAfter / 1000)}s` : ""}`);
+        this.name = "RateLimitError";
+    }
+}
+
+interface SourceHealth {
+    state: CircuitState;
+    consecutiveFailures: number;
+    // How often the circuit has opened in a row, so each cooldown is longer than the last
+    trips: number;
+    // Skip the source until then
+    blockedUntil: number;
+    // The one request a half-open circuit lets through is still running
+    probing: boolean;
+    lastError?: string;
+    lastSuccess?: number;
+}
+
+// Failures in a row before the circuit opens
+const FAILURE_THRESHOLD = 3;
+const BASE_BACKOFF = 1000;
+const MAX_BACKOFF = 30 * 1000;
+const BASE_COOLDOWN = 60 * 1000;
+const MAX_COOLDOWN = 15 * 60 * 1000;
+
+// Lookups allowed at once, across every source
+const MAX_CONCURRENT_REQUESTS = 4;
+
+const myHealth = new Map<string, SourceHealth>();
+
+function getHealth(source: string): SourceHealth {
+    if (!myHealth.has(source)) {
+        myHealth.set(source, { state: CircuitState.CLOSED, consecutiveFailures: 0, trips: 0, blockedUntil: 0, probing: false });
+    }
+    return myHealth.get(source)!;
+}
+
+// Whether I should ask this source right now. A half-open source only gets one request at a time.
+export function isSourceAvailable(source: string): boolean {
+    const health = getHealth(source);
+    if (Date.now() < health.blockedUntil) return false;
+
+    if (health.state === CircuitState.OPEN) health.state = CircuitState.HALF_OPEN;
+    if (health.state === CircuitState.HALF_OPEN) {
+        if (health.probing) return false;
+        health.probing = true;
+    }
+    return true;
+}
+
+export function recordSourceSuccess(source: string): void {
+    const health = getHealth(source);
+    health.state = CircuitState.CLOSED;
+    health.consecutiveFailures = 0;
+    health.trips = 0;
+    health.blockedUntil = 0;
+    health.probing = false;
+    health.lastSuccess = Date.now();
+}
+
+export function recordSourceFailure(source: string, error: any): void {
+    const health = getHealth(source);
+    const now = Date.now();
+
+    health.consecutiveFailures++;
+    health.probing = false;
+    health.lastError = error?.message ?? String(error);
+
+    // Back off a little more after every failure, or as long as the source asked me to
+    const backoff = error instanceof RateLimitError && error.retryAfter
+        ? error.retryAfter
+        : Math.min(BASE_BACKOFF * 2 ** (health.consecutiveFailures - 1), MAX_BACKOFF);
+    health.blockedUntil = now + backoff;
+
+    // Too many in a row, or the trial request failed too: stop asking for a while
+    if (health.state === CircuitState.HALF_OPEN || health.consecutiveFailures >= FAILURE_THRESHOLD) {
+        health.state = CircuitState.OPEN;
+        health.trips++;
+        const cooldown = Math.min(BASE_COOLDOWN * 2 ** (health.trips - 1), MAX_COOLDOWN);
+        health.blockedUntil = Math.max(health.blockedUntil, now + cooldown);
+    }
+}
+
+// Retry-After is either seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Throw for a response I can't use, with how long to wait when it's a 429
+export function checkResponse(response: Response, source: string): void {
+    if (response.status === 429) {
+        throw new RateLimitError(source, parseRetryAfter(response.headers?.get("Retry-After") ?? null));
+    }
+    if (!response.ok) {
+        throw new Error(`${source} error: ${response.status}`);
+    }
+}
+
+// One line per source for my debug output, e.g. "pronoundb: open, 3 failures, retrying in 45s (PronounDB error: 503)"
+export function describeSourceHealth(): string[] {
+    const now = Date.now();
+
+    return Array.from(myHealth, ([source, health]) => {
+        const parts: string[] = [health.state];
+        if (health.consecutiveFailures > 0) parts.push(`${health.consecutiveFailures} failure${health.consecutiveFailures === 1 ? "" : "s"}`);
+        if (health.blockedUntil > now) parts.push(`retrying in ${Math.ceil((health.blockedUntil - now) / 1000)}s`);
+        if (health.lastSuccess) parts.push(`last worked ${Math.round((now - health.lastSuccess) / 1000)}s ago`);
+
+        const error = health.consecutiveFailures > 0 && health.lastError ? ` (${health.lastError})` : "";
+        return `${source}: ${parts.join(", ")}${error}`;
+    });
+}
+
+let myActiveRequests = 0;
+const myQueue: Array<() => void> = [];
+
+function release(): void {
+    // The slot goes straight to whoever has waited longest, so nobody can sneak in between
+    const next = myQueue.shift();
+    if (next) next();
+    else myActiveRequests--;
+}
+
+// Run a request once fewer than MAX_CONCURRENT_REQUESTS are going. Gives up if it times out while waiting.
+export async function limitRequest<T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) throw new Error("Timed out waiting for a free request slot");
+
+    if (myActiveRequests >= MAX_CONCURRENT_REQUESTS) {
+        await new Promise<void>((resolve, reject) => {
+            const start = () => {
+                signal?.removeEventListener("abort", abort);
+                resolve();
+            };
+            const abort = () => {
+                const index = myQueue.indexOf(start);
+                if (index !== -1) myQueue.splice(index, 1);
+                reject(new Error("Timed out waiting for a free request slot"));
+            };
+
+            myQueue.push(start);
+            signal?.addEventListener("abort", abort, { once: true });
+        });
+    } else {
+        myActiveRequests++;
+    }
+
+    try {
+        return await run();
+    } finally {
+        release();
+    }
+}
+
+export function limitedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    return limitRequest(() => fetch(url, init), init.signal ?? undefined);
+}
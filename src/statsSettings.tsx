@@ -0,0 +1,132 @@
+import { saveFile } from "@utils/web";
+import { Alerts, Button, Forms, React, Text, useState } from "@webpack/common";
+import { CorrectionMode } from "./pronounAutoCorrect";
+import { exportStatsAsCSV, exportStatsAsJSON, getMyStats, resetMyStats, toDateKey } from "./pronounStats";
+
+// How many days my trend chart covers
+const TREND_DAYS = 14;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const MODE_LABELS: { [mode: string]: string; } = {
+    [CorrectionMode.AUTO_CORRECT]: "Auto-corrected",
+    [CorrectionMode.BLOCK_AND_WARN]: "Blocked",
+    [CorrectionMode.ASK_FIRST]: "Reviewed and corrected"
+};
+
+const CHANNEL_LABELS: { [kind: string]: string; } = {
+    dm: "DMs",
+    guild: "Servers"
+};
+
+function download(data: string, fileName: string, type: string): void {
+    saveFile(new File([data], fileName, { type }));
+}
+
+function CountList({ title, counts, labels = {}, limit }: {
+    title: string;
+    counts: { [key: string]: number; };
+    labels?: { [key: string]: string; };
+    limit?: number;
+}) {
+    const sorted = Object.entries(counts).sort(([, a], [, b]) => b - a).slice(0, limit);
+
+    return (
+        <div style={{ marginBottom: 12 }}>
+            <Forms.FormTitle tag="h5">{title}</Forms.FormTitle>
+            {sorted.length === 0 && <Forms.FormText>Nothing yet</Forms.FormText>}
+            {sorted.map(([key, count]) => (
+                <Text key={key} variant="text-sm/normal">
+                    {labels[key] ?? key}: {count}
+                </Text>
+            ))}
+        </div>
+    );
+}
+
+// A bar per day, so I can see whether I'm needing fewer corrections
+function TrendChart({ byDate }: { byDate: { [date: string]: number; }; }) {
+    const today = Date.now();
+    const days = Array.from({ length: TREND_DAYS }, (_, i) => {
+        const date = toDateKey(today - (TREND_DAYS - 1 - i) * DAY);
+        return { date, count: byDate[date] ?? 0 };
+    });
+    const max = Math.max(1, ...days.map(d => d.count));
+
+    const lastWeek = days.slice(-7).reduce((sum, d) => sum + d.count, 0);
+    const weekBefore = days.slice(0, 7).reduce((sum, d) => sum + d.count, 0);
+    const trend = lastWeek === weekBefore
+        ? "same as the week before"
+        : lastWeek < weekBefore
+            ? `${weekBefore - lastWeek} fewer than the week before`
+            : `${lastWeek - weekBefore} more than the week before`;
+
+    return (
+        <div style={{ marginBottom: 12 }}>
+            <Forms.FormTitle tag="h5">Last {TREND_DAYS} days</Forms.FormTitle>
+            <div style={{ display: "flex", alignItems: "flex-end", gap: 4, height: 60 }}>
+                {days.map(day => (
+                    <div
+                        key={day.date}
+                        title={`${day.date}: ${day.count}`}
+                        style={{
+                            flex: 1,
+                            height: `${(day.count / max) * 100}%`,
+                            minHeight: 2,
+                            borderRadius: 2,
+                            background: day.count > 0 ? "var(--brand-500)" : "var(--background-modifier-accent)"
+                        }}
+                    />
+                ))}
+            </div>
+            <Text variant="text-xs/normal" style={{ color: "var(--text-muted)", marginTop: 4 }}>
+                {lastWeek} this week, {trend}
+            </Text>
+        </div>
+    );
+}
+
+// My stats section in the plugin settings
+export function StatsSettings() {
+    // Bumped after a reset so the dashboard re-reads my stats
+    const [, setVersion] = useState(0);
+    const stats = getMyStats();
+
+    const reset = () => Alerts.show({
+        title: "Reset my pronoun stats?",
+        body: "This clears every correction I've counted. Export first if I want to keep them.",
+        confirmText: "Reset",
+        confirmColor: Button.Colors.RED,
+        cancelText: "Cancel",
+        onConfirm: () => {
+            resetMyStats();
+            setVersion(v => v + 1);
+        }
+    });
+
+    return (
+        <div>
+            <Forms.FormTitle tag="h5">My statistics</Forms.FormTitle>
+            <Text variant="text-md/normal" style={{ marginBottom: 12 }}>
+                {stats.totalCorrections} corrections since {new Date(stats.since).toLocaleDateString()}
+            </Text>
+
+            <TrendChart byDate={stats.byDate} />
+            <CountList title="By mode" counts={stats.byMode} labels={MODE_LABELS} />
+            <CountList title="By channel" counts={stats.byChannelType} labels={CHANNEL_LABELS} />
+            <CountList title="Most common fixes" counts={stats.byPair} limit={10} />
+
+            <div style={{ display: "flex", gap: 8 }}>
+                <Button size={Button.Sizes.SMALL} onClick={() => download(exportStatsAsCSV(), "pronoun-stats.csv", "text/csv")}>
+                    Export CSV
+                </Button>
+                <Button size={Button.Sizes.SMALL} onClick={() => download(exportStatsAsJSON(), "pronoun-stats.json", "application/json")}>
+                    Export JSON
+                </Button>
+                <Button size={Button.Sizes.SMALL} color={Button.Colors.RED} style={{ marginLeft: "auto" }} onClick={reset}>
+                    Reset
+                </Button>
+            </div>
+        </div>
+    );
+}
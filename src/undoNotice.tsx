@@ -0,0 +1,34 @@
+import { showNotification } from "@api/Notifications";
+import { React, showToast, Toasts } from "@webpack/common";
+import { revertCorrection } from "./correctionHistory";
+
+// My "Auto-corrected" notice, with an Undo button that edits the message back to what I wrote.
+// A notification rather than a toast, since toasts can't hold a button. It goes away after a
+// few seconds, after that I can still revert from my correction history in the settings.
+export function showUndoNotice(message: string, historyEntryId: string): void {
+    const undo = async (event: React.MouseEvent) => {
+        // The notification would treat this as a click on itself
+        event.stopPropagation();
+
+        const { reverted, reason } = await revertCorrection(historyEntryId);
+        showToast(
+            reverted ? "Put my original wording back" : reason ?? "Couldn't undo that correction",
+            reverted ? Toasts.Type.SUCCESS : Toasts.Type.MESSAGE
+        );
+    };
+
+    showNotification({
+        title: "Pronouns corrected",
+        body: message,
+        richBody: (
+            <div className="roarings-pronoun-undo-notice">
+                {message}
+                <div>
+                    <span role="button" className="roarings-pronoun-undo" onClick={undo}>Undo</span>
+                </div>
+            </div>
+        ),
+        // Undo is for right after sending, my correction history has it after that
+        noPersist: true
+    });
+}
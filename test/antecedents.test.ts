@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Referent, resolveAntecedents, talksAboutThirdParty } from "../src/antecedents";
+
+// Which words went to whom, like "she→bob"
+function resolve(content: string, referents: Referent[], nameReferences: Parameters<typeof resolveAntecedents>[2] = []): string[] {
+    return resolveAntecedents(content, referents, nameReferences).map(a => `${a.word}→${a.userId}`);
+}
+
+const dmWithHim: Referent[] = [{ userId: "bob", pronouns: "he/him", implicit: true }];
+
+describe("resolveAntecedents and it", () => {
+    it("leaves weather and object it alone in a DM", () => {
+        assert.deepEqual(resolve("it is raining and she knows it", dmWithHim), ["she→bob"]);
+    });
+
+    it("leaves it's fine alone", () => {
+        assert.deepEqual(resolve("He said it's fine", dmWithHim), ["he→bob"]);
+    });
+
+    it("leaves an object it alone for someone who doesn't use it", () => {
+        assert.deepEqual(resolve("I've got it", [{ userId: "vee", pronouns: "ve/ver", implicit: true }]), []);
+    });
+
+    it("doesn't give it to a named person", () => {
+        const alex: Referent[] = [{ userId: "alex", pronouns: "she/her" }];
+        const named = [{ userId: "alex", name: "Alex", start: 0, end: 4, penalty: 0 }];
+        assert.deepEqual(resolve("Alex said he'd review it", alex, named), ["he→alex"]);
+    });
+
+    it("still resolves it for someone who goes by it/its", () => {
+        assert.deepEqual(resolve("it is coming later", [{ userId: "robo", pronouns: "it/its", implicit: true }]), ["it→robo"]);
+    });
+});
+
+const dmWithHer: Referent[] = [{ userId: "ann", pronouns: "she/her", implicit: true }];
+
+describe("resolveAntecedents and people who aren't on Discord", () => {
+    it("still checks the pronoun in his mom", () => {
+        assert.deepEqual(resolve("Tell him his mom called", dmWithHer), ["him→ann", "his→ann"]);
+        assert.deepEqual(resolve("I met his friend yesterday", dmWithHer), ["his→ann"]);
+    });
+
+    it("still checks the pronoun in her friend", () => {
+        assert.deepEqual(resolve("I met her friend yesterday", dmWithHim), ["her→bob"]);
+    });
+
+    it("leaves a pronoun after my brother to my brother", () => {
+        assert.deepEqual(resolve("my brother said he'd come", dmWithHer), []);
+    });
+});
+
+describe("talksAboutThirdParty", () => {
+    it("needs a pronoun about them, not just the phrase", () => {
+        assert.equal(talksAboutThirdParty("my brother said he'd come"), true);
+        assert.equal(talksAboutThirdParty("I saw the guy from the store"), false);
+        assert.equal(talksAboutThirdParty("a friend told me about it"), false);
+        assert.equal(talksAboutThirdParty("she met a friend"), false);
+    });
+});
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parsePronounsFromBio, parsePronounsFromText } from "../src/bioParser";
+import samples from "./fixtures/sampleBios.json";
+
+describe("parsePronounsFromBio", () => {
+    for (const { bio, expected } of samples.bios) {
+        it(`reads ${JSON.stringify(bio)} as ${expected}`, () => {
+            assert.equal(parsePronounsFromBio(bio), expected);
+        });
+    }
+});
+
+describe("parsePronounsFromText", () => {
+    for (const { text, expected } of samples.pronounFields) {
+        it(`reads ${JSON.stringify(text)} as ${expected}`, () => {
+            assert.equal(parsePronounsFromText(text), expected);
+        });
+    }
+});
+
+// What I type in "Set pronouns for this user" goes through the same parser, unspecified means it's rejected
+describe("pronoun overrides", () => {
+    for (const { text, expected } of samples.overrides) {
+        it(`reads ${JSON.stringify(text)} as ${expected}`, () => {
+            assert.equal(parsePronounsFromText(text), expected);
+        });
+    }
+});
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fixVerbAgreement, resolvePronounForm, toPluralVerb, toSingularVerb } from "../src/grammar";
+
+describe("toPluralVerb", () => {
+    const table: Array<[string, string | null]> = [
+        ["is", "are"],
+        ["has", "have"],
+        ["does", "do"],
+        ["goes", "go"],
+        ["likes", "like"],
+        ["passes", "pass"],
+        ["misses", "miss"],
+        ["wishes", "wish"],
+        ["watches", "watch"],
+        ["fixes", "fix"],
+        ["buzzes", "buzz"],
+        ["freezes", "freeze"],
+        ["lies", "lie"],
+        ["dies", "die"],
+        ["tries", "try"],
+        ["studies", "study"],
+        ["plays", "play"],
+        ["uses", "use"],
+        ["went", null],
+        ["always", null],
+        ["boss", null]
+    ];
+
+    for (const [verb, expected] of table) {
+        it(`${verb} → ${expected}`, () => assert.equal(toPluralVerb(verb), expected));
+    }
+});
+
+describe("toSingularVerb", () => {
+    const table: Array<[string, string | null]> = [
+        ["are", "is"],
+        ["have", "has"],
+        ["do", "does"],
+        ["go", "goes"],
+        ["like", "likes"],
+        ["pass", "passes"],
+        ["miss", "misses"],
+        ["wish", "wishes"],
+        ["watch", "watches"],
+        ["fix", "fixes"],
+        ["lie", "lies"],
+        ["try", "tries"],
+        ["study", "studies"],
+        ["play", "plays"],
+        ["went", null],
+        ["really", null]
+    ];
+
+    for (const [verb, expected] of table) {
+        it(`${verb} → ${expected}`, () => assert.equal(toSingularVerb(verb), expected));
+    }
+});
+
+describe("resolvePronounForm for her", () => {
+    const table: Array<[string, string]> = [
+        ["I made her laugh", "object"],
+        ["she helped her study", "object"],
+        ["I saw her yesterday", "object"],
+        ["I told her about it", "object"],
+        ["I bought her lunch", "object"],
+        ["I love her project", "possessiveDeterminer"],
+        ["Her car is red", "possessiveDeterminer"],
+        ["I went with her sister", "possessiveDeterminer"],
+        ["that's her phone", "possessiveDeterminer"],
+        ["she did her own thing", "possessiveDeterminer"]
+    ];
+
+    for (const [text, expected] of table) {
+        it(`"${text}" → ${expected}`, () => {
+            const position = text.search(/\bher\b/i);
+            assert.equal(resolvePronounForm(text, position, text.slice(position, position + 3)), expected);
+        });
+    }
+});
+
+describe("fixVerbAgreement", () => {
+    const fix = (text: string, pronoun: string, toPlural: boolean) => {
+        const start = text.indexOf(pronoun);
+        return fixVerbAgreement(text, start, start + pronoun.length, toPlural);
+    };
+
+    it("fixes the verb after the pronoun", () => {
+        assert.equal(fix("she passes the ball", "she", true)?.corrected, "pass");
+        assert.equal(fix("they go home", "they", false)?.corrected, "goes");
+    });
+
+    it("fixes the auxiliary before the pronoun in a question", () => {
+        assert.deepEqual(fix("is she coming?", "she", true), { original: "is", corrected: "are", position: 0, reason: "verb agreement" });
+        assert.equal(fix("Does he know?", "he", true)?.corrected, "Do");
+        assert.equal(fix("why do they care", "they", false)?.corrected, "does");
+        assert.equal(fix("Haven't they eaten?", "they", false)?.corrected, "Hasn't");
+    });
+
+    it("turns contractions around", () => {
+        assert.equal(fix("she's here", "she", true)?.corrected, "'re");
+        assert.equal(fix("they've been busy", "they", false)?.corrected, "'s");
+    });
+});
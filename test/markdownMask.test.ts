@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findMarkdownSpans, maskMarkdown, SpanKind } from "../src/markdownMask";
+
+const ALL_KINDS = Object.values(SpanKind);
+
+// The pronoun is still where it was, and everything around it lines up with the original
+function assertPronounKept(content: string, pronoun: string) {
+    const masked = maskMarkdown(content, ALL_KINDS);
+    const position = content.lastIndexOf(pronoun);
+
+    assert.equal(masked.length, content.length);
+    assert.equal(masked.slice(position, position + pronoun.length), pronoun);
+    assert.equal(masked.indexOf(pronoun), position);
+}
+
+describe("maskMarkdown", () => {
+    it("keeps offsets after a code block", () => {
+        assertPronounKept("```\nconst she = 1;\n``` he said", "he said");
+    });
+
+    it("keeps offsets after inline code", () => {
+        assertPronounKept("run `she --help` and he will see", "he will");
+    });
+
+    it("keeps offsets after a spoiler, emoji included", () => {
+        assertPronounKept("||she 🎉 won|| but he didn't", "he didn't");
+    });
+
+    it("keeps offsets after a link and a masked link", () => {
+        assertPronounKept("https://example.com/she [her site](https://example.com) he made it", "he made");
+    });
+
+    it("keeps offsets after a quote", () => {
+        assertPronounKept("> she said so\nhe agreed", "he agreed");
+    });
+
+    it("keeps offsets before a >>> quote and blanks all of it", () => {
+        const content = "he wrote\n>>> she said\nshe meant it";
+        const masked = maskMarkdown(content, [SpanKind.BLOCK_QUOTE]);
+
+        assert.equal(masked.length, content.length);
+        assert.equal(masked.indexOf("he wrote"), 0);
+        assert.ok(!masked.includes("she"));
+        assert.equal(masked.split("\n").length, content.split("\n").length);
+    });
+
+    it("leaves kinds I don't skip alone", () => {
+        const content = "||she|| and `he`";
+        assert.equal(maskMarkdown(content, [SpanKind.INLINE_CODE]), "||she|| and     ");
+        assert.equal(maskMarkdown(content, []), content);
+    });
+});
+
+describe("findMarkdownSpans", () => {
+    it("doesn't find spans inside code", () => {
+        const spans = findMarkdownSpans("```||not a spoiler||```");
+        assert.deepEqual(spans.map(s => s.kind), [SpanKind.CODE_BLOCK]);
+    });
+});
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildNameIndex, findIndexedNameReferences, findNameReferences, NameCandidate } from "../src/nameMatcher";
+
+const members: NameCandidate[] = [
+    { userId: "lunch", names: ["lunch"] },
+    { userId: "alex", names: ["alex"] },
+    { userId: "sam", names: ["sam"] },
+    { userId: "deejay", names: ["DeeJay"] }
+];
+
+// Who got matched, like "alex"
+function matched(content: string): string[] {
+    return findNameReferences(content, members).map(r => r.userId);
+}
+
+describe("findNameReferences", () => {
+    it("doesn't read an everyday word as a name", () => {
+        assert.deepEqual(matched("I had lunch, he said"), []);
+        assert.deepEqual(matched("Lunch was good, he said"), []);
+    });
+
+    it("matches a word-like name written like a name", () => {
+        assert.deepEqual(matched("I asked Lunch and she said no"), ["lunch"]);
+        assert.deepEqual(matched("ask sam if he's coming"), []);
+        assert.deepEqual(matched("ask Sam if he's coming"), ["sam"]);
+    });
+
+    it("matches an exact unusual casing anywhere", () => {
+        assert.deepEqual(matched("DeeJay said she'd play"), ["deejay"]);
+        assert.deepEqual(matched("deejay said she'd play"), ["deejay"]);
+    });
+
+    it("still matches ordinary names in lowercase", () => {
+        assert.deepEqual(matched("alex said he'd review it"), ["alex"]);
+    });
+
+    it("trusts word-like names less than ordinary ones", () => {
+        const [lunch] = findNameReferences("I asked Lunch", members);
+        const [alex] = findNameReferences("I asked Alex", members);
+        assert.ok(lunch.penalty > alex.penalty);
+    });
+
+    it("finds the same people with an index built once", () => {
+        const index = buildNameIndex(members);
+        for (const content of ["I asked Lunch", "alex said he'd review it", "I had lunch, he said"]) {
+            assert.deepEqual(findIndexedNameReferences(content, index), findNameReferences(content, members));
+        }
+    });
+});
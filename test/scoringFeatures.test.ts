@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Language } from "../src/languages";
+import { computeScore, ScoringContext } from "../src/scoringFeatures";
+
+// The default threshold in settings
+const THRESHOLD = 80;
+
+function score(text: string, word: string, mention: { start: number; end: number; } | null, language = Language.ENGLISH) {
+    const position = text.indexOf(word);
+    const context: ScoringContext = {
+        text,
+        word,
+        position,
+        language,
+        distance: mention ? position - mention.end : null,
+        crossesSentence: false,
+        namePenalty: 0
+    };
+    return computeScore(context, feature => feature.defaultWeight);
+}
+
+const features = (breakdown: ReturnType<typeof computeScore>) => breakdown.contributions.map(c => c.feature);
+
+describe("computeScore", () => {
+    it("keeps a they→he mismatch next to a mention flagged", () => {
+        const breakdown = score("<@1> I think they are coming", "they", { start: 0, end: 4 });
+        assert.ok(breakdown.score >= THRESHOLD, `scored ${breakdown.score}`);
+        assert.ok(!features(breakdown).includes("groupNoun"));
+        assert.ok(features(breakdown).includes("verbNearby"));
+    });
+
+    it("doesn't count the pronoun as its own context", () => {
+        assert.ok(!features(score("they", "they", null)).includes("groupNoun"));
+    });
+
+    it("still sees a group noun nearby", () => {
+        assert.ok(features(score("<@1> my friend said she left", "she", { start: 0, end: 4 })).includes("groupNoun"));
+    });
+
+    it("looks for verbs in the message's language", () => {
+        assert.ok(features(score("<@1> creo que él está aquí", "él", { start: 0, end: 4 }, Language.SPANISH)).includes("verbNearby"));
+        assert.ok(!features(score("<@1> creo que él is here", "él", { start: 0, end: 4 }, Language.SPANISH)).includes("verbNearby"));
+    });
+});